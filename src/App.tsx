@@ -3,24 +3,44 @@ import { Toaster as Sonner } from "@/components/ui/sonner";
 import { TooltipProvider } from "@/components/ui/tooltip";
 import { QueryClient, QueryClientProvider } from "@tanstack/react-query";
 import { BrowserRouter, Routes, Route } from "react-router-dom";
+import { PlacesProviderContext } from "@/hooks/usePlacesProvider";
+import { resolveDefaultPlacesProvider } from "@/lib/placesProvider";
+import { purgeExpiredPlacesCache, withPlacesCache } from "@/lib/placesCache";
+import { withPlacesResilience } from "@/lib/placesResilience";
+import { withBudgetFallback } from "@/lib/usageMeter";
+import { mockPlacesProvider } from "@/lib/mockPlaces";
+import UsagePanel from "@/components/UsagePanel";
 import Index from "./pages/Index";
+import Settings from "./pages/Settings";
 import NotFound from "./pages/NotFound";
 
 const queryClient = new QueryClient();
+// Cache inside the budget fallback so cached answers never touch the
+// retry/circuit breaker layer, and mock data is used only when the cache has nothing
+const placesProvider = withBudgetFallback(
+  withPlacesCache(withPlacesResilience(resolveDefaultPlacesProvider())),
+  mockPlacesProvider
+);
+
+purgeExpiredPlacesCache();
 
 const App = () => (
   <QueryClientProvider client={queryClient}>
-    <TooltipProvider>
-      <Toaster />
-      <Sonner />
-      <BrowserRouter>
-        <Routes>
-          <Route path="/" element={<Index />} />
-          {/* ADD ALL CUSTOM ROUTES ABOVE THE CATCH-ALL "*" ROUTE */}
-          <Route path="*" element={<NotFound />} />
-        </Routes>
-      </BrowserRouter>
-    </TooltipProvider>
+    <PlacesProviderContext.Provider value={placesProvider}>
+      <TooltipProvider>
+        <Toaster />
+        <Sonner />
+        <UsagePanel />
+        <BrowserRouter>
+          <Routes>
+            <Route path="/" element={<Index />} />
+            <Route path="/settings" element={<Settings />} />
+            {/* ADD ALL CUSTOM ROUTES ABOVE THE CATCH-ALL "*" ROUTE */}
+            <Route path="*" element={<NotFound />} />
+          </Routes>
+        </BrowserRouter>
+      </TooltipProvider>
+    </PlacesProviderContext.Provider>
   </QueryClientProvider>
 );
 
@@ -0,0 +1,140 @@
+import React, { useCallback, useEffect, useState } from 'react';
+import { Database, RefreshCw, Trash2 } from 'lucide-react';
+import { toast } from 'sonner';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import {
+  clearPlacesCache,
+  getCacheEntryStatus,
+  listPlacesCacheEntries,
+  PlacesCacheEntry,
+  PlacesCacheKind,
+  purgeExpiredPlacesCache,
+} from '@/lib/placesCache';
+
+const MAX_VISIBLE_ENTRIES = 50;
+
+const statusVariant = {
+  fresh: 'default',
+  stale: 'secondary',
+  expired: 'outline',
+} as const;
+
+const formatAge = (storedAt: number) => {
+  const minutes = Math.floor((Date.now() - storedAt) / 60000);
+  if (minutes < 1) return 'just now';
+  if (minutes < 60) return `${minutes}m ago`;
+  return `${Math.floor(minutes / 60)}h ago`;
+};
+
+const CacheSettings: React.FC = () => {
+  const [entries, setEntries] = useState<PlacesCacheEntry[]>([]);
+  const [loading, setLoading] = useState(false);
+
+  const refresh = useCallback(async () => {
+    setLoading(true);
+    try {
+      setEntries(await listPlacesCacheEntries());
+    } finally {
+      setLoading(false);
+    }
+  }, []);
+
+  useEffect(() => {
+    refresh();
+  }, [refresh]);
+
+  const handleClear = async (kind?: PlacesCacheKind) => {
+    await clearPlacesCache(kind);
+    toast.success(kind ? `Cleared cached ${kind} results` : 'Places cache cleared');
+    refresh();
+  };
+
+  const handlePurge = async () => {
+    const removed = await purgeExpiredPlacesCache();
+    toast.success(`Removed ${removed} expired ${removed === 1 ? 'entry' : 'entries'}`);
+    refresh();
+  };
+
+  const countByKind = (kind: PlacesCacheKind) => entries.filter((entry) => entry.kind === kind).length;
+  const approximateSize = new Blob([JSON.stringify(entries)]).size;
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="text-base flex items-center justify-between">
+          <span className="flex items-center">
+            <Database className="h-4 w-4 mr-2" />
+            Places Cache
+          </span>
+          <Button variant="ghost" size="sm" onClick={refresh} disabled={loading}>
+            <RefreshCw className={`h-4 w-4 ${loading ? 'animate-spin' : ''}`} />
+          </Button>
+        </CardTitle>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        <div className="grid grid-cols-3 gap-2 text-center">
+          <div className="p-2 bg-muted rounded-lg">
+            <div className="text-lg font-semibold">{countByKind('nearby')}</div>
+            <div className="text-xs text-muted-foreground">Nearby searches</div>
+          </div>
+          <div className="p-2 bg-muted rounded-lg">
+            <div className="text-lg font-semibold">{countByKind('details')}</div>
+            <div className="text-xs text-muted-foreground">Place details</div>
+          </div>
+          <div className="p-2 bg-muted rounded-lg">
+            <div className="text-lg font-semibold">{(approximateSize / 1024).toFixed(1)} KB</div>
+            <div className="text-xs text-muted-foreground">Stored</div>
+          </div>
+        </div>
+
+        <div className="flex flex-wrap gap-2">
+          <Button variant="outline" size="sm" onClick={() => handleClear('nearby')}>
+            Clear nearby
+          </Button>
+          <Button variant="outline" size="sm" onClick={() => handleClear('details')}>
+            Clear details
+          </Button>
+          <Button variant="outline" size="sm" onClick={handlePurge}>
+            Remove expired
+          </Button>
+          <Button variant="destructive" size="sm" onClick={() => handleClear()} className="flex items-center space-x-1">
+            <Trash2 className="h-4 w-4" />
+            <span>Clear all</span>
+          </Button>
+        </div>
+
+        {entries.length === 0 ? (
+          <p className="text-sm text-muted-foreground text-center py-4">The cache is empty</p>
+        ) : (
+          <div className="divide-y border rounded-lg">
+            {entries.slice(0, MAX_VISIBLE_ENTRIES).map((entry) => {
+              const status = getCacheEntryStatus(entry);
+              return (
+                <div key={entry.key} className="p-2 flex items-center justify-between space-x-2">
+                  <div className="min-w-0">
+                    <p className="text-xs font-mono truncate">{entry.key}</p>
+                    <p className="text-[10px] text-muted-foreground">
+                      {entry.kind} • {formatAge(entry.storedAt)}
+                    </p>
+                  </div>
+                  <Badge variant={statusVariant[status]} className="text-xs flex-shrink-0">
+                    {status}
+                  </Badge>
+                </div>
+              );
+            })}
+          </div>
+        )}
+        {entries.length > MAX_VISIBLE_ENTRIES && (
+          <p className="text-xs text-muted-foreground text-center">
+            Showing {MAX_VISIBLE_ENTRIES} of {entries.length} entries
+          </p>
+        )}
+      </CardContent>
+    </Card>
+  );
+};
+
+export default CacheSettings;
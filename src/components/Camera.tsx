@@ -8,6 +8,7 @@ import { Label } from '@/components/ui/label';
 import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
 import { Alert, AlertDescription } from '@/components/ui/alert';
 import { toast } from 'sonner';
+import ResponsiveImage from './ResponsiveImage';
 
 const Camera: React.FC = () => {
   const [isCapturing, setIsCapturing] = useState(false);
@@ -188,9 +189,11 @@ const Camera: React.FC = () => {
                 <CardTitle className="text-lg">Preview</CardTitle>
               </CardHeader>
               <CardContent className="p-0">
-                <img
+                <ResponsiveImage
                   src={capturedImage}
                   alt="Captured"
+                  aspectRatio={1}
+                  priority
                   className="w-full aspect-square object-cover"
                 />
               </CardContent>
@@ -0,0 +1,34 @@
+import React from 'react';
+import { MapPin } from 'lucide-react';
+import { Button, ButtonProps } from '@/components/ui/button';
+import { DIRECTIONS_APP_LABELS, DirectionsTarget, getDirectionsUrl } from '@/lib/directions';
+import { usePreferredDirectionsApp } from '@/hooks/usePreferredDirectionsApp';
+import { usePreferredTravelMode } from '@/hooks/usePreferredTravelMode';
+import { UserLocation } from '@/types';
+
+interface DirectionsButtonProps extends Omit<ButtonProps, 'asChild' | 'children'> {
+  destination: DirectionsTarget;
+  origin?: Pick<UserLocation, 'lat' | 'lng'>;
+}
+
+// Opens directions in the preferred map app with the preferred travel mode
+const DirectionsButton: React.FC<DirectionsButtonProps> = ({ destination, origin, ...props }) => {
+  const [app] = usePreferredDirectionsApp();
+  const [mode] = usePreferredTravelMode();
+
+  return (
+    <Button {...props} asChild>
+      <a
+        href={getDirectionsUrl(app, destination, { origin, mode })}
+        target="_blank"
+        rel="noopener noreferrer"
+        title={`Directions in ${DIRECTIONS_APP_LABELS[app]}`}
+      >
+        <MapPin className="h-4 w-4" />
+        <span>Directions</span>
+      </a>
+    </Button>
+  );
+};
+
+export default DirectionsButton;
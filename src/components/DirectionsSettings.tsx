@@ -0,0 +1,40 @@
+import React from 'react';
+import { MapPin } from 'lucide-react';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { DIRECTIONS_APP_LABELS, DIRECTIONS_APPS, DirectionsApp } from '@/lib/directions';
+import { usePreferredDirectionsApp } from '@/hooks/usePreferredDirectionsApp';
+
+const DirectionsSettings: React.FC = () => {
+  const [directionsApp, setDirectionsApp] = usePreferredDirectionsApp();
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="text-base flex items-center">
+          <MapPin className="h-4 w-4 mr-2" />
+          Directions
+        </CardTitle>
+      </CardHeader>
+      <CardContent className="space-y-3">
+        <p className="text-sm text-muted-foreground">
+          Directions open in this app with your travel mode. Waze always routes by car, and OpenStreetMap walks instead of taking transit.
+        </p>
+        <Select value={directionsApp} onValueChange={(app) => setDirectionsApp(app as DirectionsApp)}>
+          <SelectTrigger aria-label="Directions app">
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            {DIRECTIONS_APPS.map((app) => (
+              <SelectItem key={app} value={app}>
+                {DIRECTIONS_APP_LABELS[app]}
+              </SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+      </CardContent>
+    </Card>
+  );
+};
+
+export default DirectionsSettings;
@@ -1,34 +1,91 @@
 
 import React, { useState } from 'react';
-import { Heart, MessageCircle, Share, MapPin, Clock, Utensils, Search, X, Star, Navigation } from 'lucide-react';
+import { Link } from 'react-router-dom';
+import { Heart, MessageCircle, Share, MapPin, Clock, Utensils, Search, X, Star, Navigation, Settings } from 'lucide-react';
 import { Card, CardContent } from '@/components/ui/card';
 import { Avatar, AvatarFallback, AvatarImage } from '@/components/ui/avatar';
 import { Button } from '@/components/ui/button';
 import { Badge } from '@/components/ui/badge';
 import { Input } from '@/components/ui/input';
 import { Alert, AlertDescription } from '@/components/ui/alert';
+import { Skeleton } from '@/components/ui/skeleton';
 import RestaurantDetail from './RestaurantDetail';
-import { useLocationSearch, useNearbyRestaurants } from '@/hooks/useGoogleMaps';
+import { getCuisineLabels } from '@/lib/cuisines';
+import PlacesErrorAlert from './PlacesErrorAlert';
+import OpeningStatusBadge from './OpeningStatusBadge';
+import ResponsiveImage from './ResponsiveImage';
+import PhotoAttributions from './PhotoAttributions';
+import ProviderAttribution from './ProviderAttribution';
+import { usePlacesAutocomplete, usePrefetchPlaceDetails, useTiledNearbyRestaurants, useTravelTimes } from '@/hooks/useGoogleMaps';
+import { useEnrichmentPriority } from '@/hooks/useEnrichmentPriority';
 import { useGeolocation } from '@/hooks/useGeolocation';
-import { Restaurant, UserLocation } from '@/types';
-import { LocationSearchResult } from '@/lib/googleMaps';
+import { usePreferredTravelMode } from '@/hooks/usePreferredTravelMode';
+import { useNow } from '@/hooks/useNow';
+import { RestaurantSort, sortRestaurants } from '@/lib/restaurantSort';
+import { DEFAULT_SEARCH_RADIUS, getSearchArea, SearchArea } from '@/lib/searchArea';
+import TravelTimeBadge from './TravelTimeBadge';
+import RestaurantSortSelect from './RestaurantSortSelect';
+import { PlacePrediction, PredictionMatch, Restaurant } from '@/types';
+import { splitByMatches } from '@/lib/placesAutocomplete';
+
+// Bold the parts of a prediction that matched what was typed
+const HighlightedText: React.FC<{ text: string; matches: PredictionMatch[] }> = ({ text, matches }) => (
+  <>
+    {splitByMatches(text, matches).map((part, index) =>
+      part.matched ? <strong key={index}>{part.text}</strong> : <span key={index} className="font-normal">{part.text}</span>
+    )}
+  </>
+);
 
 const Feed: React.FC = () => {
   const [selectedRestaurant, setSelectedRestaurant] = useState<string | null>(null);
   const [searchQuery, setSearchQuery] = useState('');
   const [showSearchResults, setShowSearchResults] = useState(false);
-  const [selectedLocation, setSelectedLocation] = useState<UserLocation | null>(null);
+  const [selectedArea, setSelectedArea] = useState<SearchArea | null>(null);
   const [locationName, setLocationName] = useState<string>('');
+  const [sort, setSort] = useState<RestaurantSort>('distance');
+  const [travelMode] = usePreferredTravelMode();
   
   // Location detection
   const { location: currentLocation, loading: locationLoading, error: locationError, getCurrentLocation } = useGeolocation();
   
-  // Use current location or selected location for restaurants
+  // Use current location or selected location for restaurants. A picked
+  // city or neighbourhood is searched across its whole viewport.
+  const selectedLocation = selectedArea?.center ?? null;
   const activeLocation = selectedLocation || currentLocation;
-  const { restaurants, loading: restaurantsLoading, error: restaurantsError } = useNearbyRestaurants(activeLocation);
+  const {
+    restaurants,
+    enriching,
+    loading: restaurantsLoading,
+    error: restaurantsError,
+    refetch: refetchRestaurants,
+    hasMore,
+    loadMore,
+    loadingMore,
+  } = useTiledNearbyRestaurants(
+    activeLocation,
+    selectedArea?.radius ?? DEFAULT_SEARCH_RADIUS,
+    'restaurant',
+    selectedArea?.bounds
+  );
+  
+  // Prefetch details as cards come into view so opening one is instant
+  const prefetchDetails = usePrefetchPlaceDetails();
+  const observeCard = useEnrichmentPriority(prefetchDetails);
+  const { travelTimes } = useTravelTimes(activeLocation, restaurants, travelMode);
+  const now = useNow();
   
-  // Location search functionality
-  const { results, loading: searchLoading, error: searchError, searchLocations, clearResults } = useLocationSearch();
+  // Location autocomplete, biased to where the user is looking
+  const {
+    predictions,
+    loading: searchLoading,
+    resolving,
+    error: searchError,
+    search,
+    clear: clearPredictions,
+    selectPrediction,
+    refetch: retrySearch,
+  } = usePlacesAutocomplete(activeLocation);
 
   const formatTimeAgo = (timestamp: string) => {
     const now = new Date();
@@ -51,38 +108,39 @@ const Feed: React.FC = () => {
     if (value.trim()) {
       setShowSearchResults(true);
       // Search for locations instead of restaurants
-      searchLocations(value);
+      search(value);
     } else {
       setShowSearchResults(false);
-      clearResults();
+      clearPredictions();
     }
   };
 
-  const handleLocationSelect = (location: LocationSearchResult) => {
-    setSelectedLocation({
-      lat: location.location.lat,
-      lng: location.location.lng,
-    });
+  // Only a picked prediction is looked up; failures stay in the dropdown
+  const handleLocationSelect = async (prediction: PlacePrediction) => {
+    const location = await selectPrediction(prediction);
+    if (!location) {
+      return;
+    }
+    setSelectedArea(getSearchArea(location));
     setLocationName(location.name);
     setSearchQuery('');
     setShowSearchResults(false);
-    clearResults();
   };
 
   const clearSearch = () => {
     setSearchQuery('');
     setShowSearchResults(false);
-    clearResults();
+    clearPredictions();
   };
 
   const handleDetectLocation = () => {
     getCurrentLocation();
-    setSelectedLocation(null);
+    setSelectedArea(null);
     setLocationName('');
   };
 
   const clearSelectedLocation = () => {
-    setSelectedLocation(null);
+    setSelectedArea(null);
     setLocationName('');
   };
 
@@ -105,16 +163,17 @@ const Feed: React.FC = () => {
     };
   };
 
-  // Filter restaurants to only those with a valid name and image
+  // Filter restaurants to only those with a valid name; ones still waiting
+  // for a photo render with a skeleton so they can be prioritised on screen
   const validRestaurants = restaurants.filter((restaurant) => {
     const hasValidName = typeof restaurant.name === 'string' && restaurant.name.trim().length > 0;
-    const hasValidImage = typeof restaurant.image === 'string' && restaurant.image.trim().length > 0 && !restaurant.image.includes('placeholder');
-    if (!hasValidName || !hasValidImage) {
+    if (!hasValidName) {
       // Optional: log skipped restaurants for debugging
       // console.warn('Skipping invalid restaurant:', restaurant);
     }
-    return hasValidName && hasValidImage;
+    return hasValidName;
   });
+  const sortedRestaurants = sortRestaurants(validRestaurants, sort, { now, travelTimes });
 
   if (selectedRestaurant) {
     return (
@@ -128,11 +187,16 @@ const Feed: React.FC = () => {
   return (
     <div className="flex flex-col space-y-4 pb-20">
       <div className="sticky top-0 bg-white/95 backdrop-blur-sm border-b border-border p-4 z-10">
+        <Button variant="ghost" size="sm" asChild className="absolute right-2 top-4 h-8 w-8 p-0">
+          <Link to="/settings" aria-label="Settings">
+            <Settings className="h-4 w-4 text-muted-foreground" />
+          </Link>
+        </Button>
         <h1 className="text-2xl font-bold text-center bg-gradient-to-r from-primary to-secondary bg-clip-text text-transparent">
           newBuzo
         </h1>
         <p className="text-sm text-muted-foreground text-center mt-1">
-          {activeLocation ? `${restaurants.length} restaurants found${locationName ? ` in ${locationName}` : ' nearby'}` : 'Search for a location to discover restaurants'}
+          {activeLocation ? `${sortedRestaurants.length} restaurants found${locationName ? ` in ${locationName}` : ' nearby'}` : 'Search for a location to discover restaurants'}
         </p>
         
         {/* Selected Location Display */}
@@ -194,45 +258,50 @@ const Feed: React.FC = () => {
           {showSearchResults && (
             <Card className="absolute top-full mt-2 w-full max-h-96 overflow-y-auto z-50 border shadow-lg">
               <CardContent className="p-0">
-                {searchLoading && (
+                {(searchLoading || resolving) && (
                   <div className="p-4 text-center text-sm text-muted-foreground">
                     <div className="flex items-center justify-center space-x-2">
                       <div className="animate-spin rounded-full h-4 w-4 border-b-2 border-primary"></div>
-                      <span>Searching locations...</span>
+                      <span>{resolving ? 'Loading location...' : 'Searching locations...'}</span>
                     </div>
                   </div>
                 )}
                 
                 {searchError && (
-                  <div className="p-4 text-center text-sm text-red-500">
-                    <p>Error: {searchError}</p>
-                    <p className="text-xs mt-1">Check if Google Maps API is configured correctly</p>
-                  </div>
+                  <PlacesErrorAlert
+                    error={searchError}
+                    onRetry={() => retrySearch()}
+                    className="border-0 rounded-none"
+                  />
                 )}
                 
-                {!searchLoading && !searchError && results.length === 0 && searchQuery && (
+                {!searchLoading && !searchError && predictions.length === 0 && searchQuery && (
                   <div className="p-4 text-center text-sm text-muted-foreground">
                     No locations found for "{searchQuery}"
                   </div>
                 )}
                 
-                {results.map((location) => (
+                {predictions.map((prediction) => (
                   <div
-                    key={location.place_id}
-                    className="p-4 border-b last:border-b-0 hover:bg-gray-50 cursor-pointer transition-colors"
-                    onClick={() => handleLocationSelect(location)}
+                    key={prediction.place_id}
+                    className={`p-4 border-b last:border-b-0 hover:bg-gray-50 cursor-pointer transition-colors ${resolving ? 'pointer-events-none opacity-50' : ''}`}
+                    onClick={() => handleLocationSelect(prediction)}
                   >
                     <div className="flex items-start space-x-3">
                       <div className="flex-shrink-0 w-10 h-10 bg-blue-100 rounded-lg flex items-center justify-center">
                         <MapPin className="h-5 w-5 text-blue-600" />
                       </div>
                       <div className="flex-1 min-w-0">
-                        <h3 className="font-semibold text-sm truncate">{location.name}</h3>
-                        <p className="text-xs text-muted-foreground mt-1 line-clamp-2">
-                          {location.formatted_address}
-                        </p>
+                        <h3 className="text-sm truncate">
+                          <HighlightedText text={prediction.main_text} matches={prediction.main_text_matches} />
+                        </h3>
+                        {prediction.secondary_text && (
+                          <p className="text-xs text-muted-foreground mt-1 line-clamp-2">
+                            {prediction.secondary_text}
+                          </p>
+                        )}
                         <div className="flex items-center space-x-1 mt-2">
-                          {location.types.slice(0, 2).map((type) => (
+                          {prediction.types.slice(0, 2).map((type) => (
                             <Badge key={type} variant="outline" className="text-xs">
                               {type.replace(/_/g, ' ')}
                             </Badge>
@@ -267,9 +336,11 @@ const Feed: React.FC = () => {
 
         {/* Error State */}
         {restaurantsError && (
-          <Alert>
-            <AlertDescription>{restaurantsError}</AlertDescription>
-          </Alert>
+          <PlacesErrorAlert
+            error={restaurantsError}
+            onRetry={() => refetchRestaurants()}
+            alternative={selectedLocation ? { label: 'Use my location instead', onClick: clearSelectedLocation } : undefined}
+          />
         )}
 
         {/* No Location Selected */}
@@ -290,10 +361,13 @@ const Feed: React.FC = () => {
         {/* Restaurants Feed */}
         {activeLocation && validRestaurants.length > 0 && (
           <div className="space-y-6">
-            {validRestaurants.map((restaurant, index) => {
+            <div className="flex justify-end">
+              <RestaurantSortSelect value={sort} onChange={setSort} travelMode={travelMode} />
+            </div>
+            {sortedRestaurants.map((restaurant, index) => {
               const post = createPostFromRestaurant(restaurant, index);
               return (
-                <Card key={restaurant.id} className="overflow-hidden">
+                <Card key={restaurant.id} ref={observeCard(restaurant.id)} className="overflow-hidden">
                   <CardContent className="p-0">
                     {/* Header */}
                     <div className="p-4 pb-2">
@@ -321,46 +395,49 @@ const Feed: React.FC = () => {
                       className="relative aspect-square cursor-pointer"
                       onClick={() => handleRestaurantClick(restaurant)}
                     >
-                      <img
-                        src={post.image}
-                        alt={restaurant.name}
-                        className="w-full h-full object-cover"
-                      />
-                      <div className="absolute inset-0 bg-gradient-to-t from-black/60 via-transparent to-transparent" />
-                      {/* Photo Attributions */}
-                      {restaurant.photoAttributions && restaurant.photoAttributions.length > 0 && (
-                        <div className="absolute bottom-1 left-4 right-4 flex flex-wrap items-center gap-2 text-[10px] text-white/80 z-10">
-                          {restaurant.photoAttributions.map((attr, idx) => (
-                            <span key={idx}>
-                              Photo by{' '}
-                              {attr.uri ? (
-                                <a href={attr.uri.startsWith('http') ? attr.uri : `https:${attr.uri}`} target="_blank" rel="noopener noreferrer" className="underline hover:text-white">
-                                  {attr.displayName || 'Contributor'}
-                                </a>
-                              ) : (
-                                attr.displayName || 'Contributor'
-                              )}
-                            </span>
-                          ))}
-                        </div>
+                      {enriching.has(restaurant.id) ? (
+                        <Skeleton className="w-full h-full rounded-none" />
+                      ) : (
+                        <ResponsiveImage
+                          src={post.image}
+                          alt={restaurant.name}
+                          aspectRatio={1}
+                          sizes="(max-width: 448px) 100vw, 448px"
+                          priority={index === 0}
+                          attributions={restaurant.photoAttributions}
+                          className="w-full h-full object-cover"
+                        />
                       )}
+                      <div className="absolute inset-0 bg-gradient-to-t from-black/60 via-transparent to-transparent" />
+                      <PhotoAttributions
+                        attributions={restaurant.photoAttributions}
+                        className="absolute bottom-1 left-4 right-4 text-white/80 z-10"
+                        linkClassName="hover:text-white"
+                      />
                       <div className="absolute bottom-4 left-4 right-4">
                         <div className="flex items-center justify-between">
                           <div>
                             <h3 className="text-white font-bold text-lg">{restaurant.name}</h3>
                             <div className="flex items-center space-x-2 mt-1">
-                              <Badge variant="secondary" className="bg-white/20 text-white border-white/20">
-                                {post.cuisine}
-                              </Badge>
+                              {getCuisineLabels(restaurant.cuisines, 2).map((label) => (
+                                <Badge key={label} variant="secondary" className="bg-white/20 text-white border-white/20">
+                                  {label}
+                                </Badge>
+                              ))}
                               <div className="flex items-center space-x-1">
                                 <Star className="h-4 w-4 text-yellow-400 fill-current" />
                                 <span className="text-white text-sm font-medium">{post.rating.toFixed(1)}</span>
                               </div>
+                              <OpeningStatusBadge hours={restaurant.openingHours} />
                             </div>
                           </div>
                           <div className="text-right">
                             <div className="text-white text-sm font-medium">{post.distance.toFixed(1)} km</div>
-                            <div className="text-white/80 text-xs">away</div>
+                            {travelTimes[restaurant.id] ? (
+                              <TravelTimeBadge travelTime={travelTimes[restaurant.id]} className="text-white/80" />
+                            ) : (
+                              <div className="text-white/80 text-xs">away</div>
+                            )}
                           </div>
                         </div>
                       </div>
@@ -393,6 +470,17 @@ const Feed: React.FC = () => {
           </div>
         )}
 
+        {/* Load More: large areas are searched tile by tile */}
+        {activeLocation && hasMore && !restaurantsLoading && (
+          <div className="flex justify-center mt-4">
+            <Button variant="outline" onClick={() => loadMore()} disabled={loadingMore}>
+              {loadingMore ? `Searching more of ${locationName || 'the area'}...` : 'Load more restaurants'}
+            </Button>
+          </div>
+        )}
+
+        {validRestaurants.length > 0 && <ProviderAttribution className="mt-4" />}
+
         {/* No Restaurants Found */}
         {activeLocation && validRestaurants.length === 0 && !restaurantsLoading && (
           <div className="text-center py-8 space-y-4">
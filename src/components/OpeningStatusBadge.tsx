@@ -0,0 +1,40 @@
+import React from 'react';
+import { Clock } from 'lucide-react';
+import { Badge } from '@/components/ui/badge';
+import { cn } from '@/lib/utils';
+import { getOpeningStatus, OpeningState } from '@/lib/openingHours';
+import { useNow } from '@/hooks/useNow';
+import { OpeningHours } from '@/types';
+
+interface OpeningStatusBadgeProps {
+  hours?: OpeningHours;
+  className?: string;
+}
+
+const stateStyles: Record<OpeningState, string> = {
+  open: 'bg-green-100 text-green-800 border-green-200',
+  'closing-soon': 'bg-amber-100 text-amber-800 border-amber-200',
+  'opening-soon': 'bg-amber-100 text-amber-800 border-amber-200',
+  closed: 'bg-gray-100 text-gray-700 border-gray-200',
+  unknown: '',
+};
+
+// "Open until 11pm", "Closes in 20 min", "Opens at 5pm"; renders nothing
+// when the venue's hours are unknown
+const OpeningStatusBadge: React.FC<OpeningStatusBadgeProps> = ({ hours, className }) => {
+  const now = useNow();
+  const status = getOpeningStatus(hours, now);
+
+  if (status.state === 'unknown') {
+    return null;
+  }
+
+  return (
+    <Badge variant="outline" className={cn('text-xs whitespace-nowrap', stateStyles[status.state], className)}>
+      <Clock className="h-3 w-3 mr-1" />
+      {status.label}
+    </Badge>
+  );
+};
+
+export default OpeningStatusBadge;
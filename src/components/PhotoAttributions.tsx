@@ -0,0 +1,40 @@
+import React from 'react';
+import { cn } from '@/lib/utils';
+import { PhotoAttribution } from '@/types';
+
+interface PhotoAttributionsProps {
+  attributions?: PhotoAttribution[];
+  className?: string;
+  linkClassName?: string;
+}
+
+// "Photo by ..." credits, linked to the author's profile when there is one
+const PhotoAttributions: React.FC<PhotoAttributionsProps> = ({ attributions, className, linkClassName }) => {
+  if (!attributions?.length) {
+    return null;
+  }
+
+  return (
+    <div className={cn('flex flex-wrap items-center gap-2 text-[10px]', className)}>
+      {attributions.map((attribution, index) => (
+        <span key={index}>
+          Photo by{' '}
+          {attribution.uri ? (
+            <a
+              href={attribution.uri}
+              target="_blank"
+              rel="noopener noreferrer"
+              className={cn('underline', linkClassName)}
+            >
+              {attribution.displayName || 'Contributor'}
+            </a>
+          ) : (
+            attribution.displayName || 'Contributor'
+          )}
+        </span>
+      ))}
+    </div>
+  );
+};
+
+export default PhotoAttributions;
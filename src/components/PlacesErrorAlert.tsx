@@ -0,0 +1,60 @@
+import React from 'react';
+import { AlertTriangle, KeyRound, RefreshCw, SearchX, Timer, WifiOff } from 'lucide-react';
+import { Alert, AlertDescription, AlertTitle } from '@/components/ui/alert';
+import { Button } from '@/components/ui/button';
+import { describePlacesError, PlacesError, PlacesErrorCode } from '@/lib/placesErrors';
+
+interface PlacesErrorAlertProps {
+  error: PlacesError;
+  onRetry?: () => void;
+  // Offered when retrying won't help, e.g. switching to demo data or going back
+  alternative?: {
+    label: string;
+    onClick: () => void;
+  };
+  className?: string;
+}
+
+const errorIcons: Partial<Record<PlacesErrorCode, React.ElementType>> = {
+  INVALID_KEY: KeyRound,
+  REQUEST_DENIED: KeyRound,
+  ZERO_RESULTS: SearchX,
+  NETWORK: WifiOff,
+  TIMEOUT: Timer,
+  QUOTA_EXCEEDED: Timer,
+  CIRCUIT_OPEN: Timer,
+};
+
+const PlacesErrorAlert: React.FC<PlacesErrorAlertProps> = ({ error, onRetry, alternative, className }) => {
+  const { title, description, recovery } = describePlacesError(error);
+  const Icon = errorIcons[error.code] || AlertTriangle;
+  const showRetry = recovery === 'retry' && onRetry;
+  const showAlternative = recovery !== 'none' && alternative;
+
+  return (
+    <Alert className={className} variant={error.code === 'ZERO_RESULTS' ? 'default' : 'destructive'}>
+      <Icon className="h-4 w-4" />
+      <AlertTitle>{title}</AlertTitle>
+      <AlertDescription>
+        <p>{description}</p>
+        {(showRetry || showAlternative) && (
+          <div className="flex flex-wrap gap-2 mt-3">
+            {showRetry && (
+              <Button size="sm" variant="outline" onClick={onRetry}>
+                <RefreshCw className="h-3 w-3 mr-1" />
+                Try again
+              </Button>
+            )}
+            {showAlternative && (
+              <Button size="sm" variant="outline" onClick={alternative.onClick}>
+                {alternative.label}
+              </Button>
+            )}
+          </div>
+        )}
+      </AlertDescription>
+    </Alert>
+  );
+};
+
+export default PlacesErrorAlert;
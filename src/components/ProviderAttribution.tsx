@@ -0,0 +1,45 @@
+import React from 'react';
+import { cn } from '@/lib/utils';
+import { getProviderBranding } from '@/lib/attribution';
+import { usePlacesProvider } from '@/hooks/usePlacesProvider';
+
+interface ProviderAttributionProps {
+  // Google's own map already carries its logo
+  onGoogleMap?: boolean;
+  className?: string;
+}
+
+// Branding the active provider's terms ask for wherever its data is listed
+const ProviderAttribution: React.FC<ProviderAttributionProps> = ({ onGoogleMap = false, className }) => {
+  const provider = usePlacesProvider();
+  const branding = getProviderBranding(provider.id, onGoogleMap);
+
+  if (branding === 'google') {
+    return (
+      <p className={cn('text-xs text-muted-foreground text-center', className)} translate="no">
+        Powered by <span className="font-medium">Google</span>
+      </p>
+    );
+  }
+
+  if (branding === 'openStreetMap') {
+    return (
+      <p className={cn('text-xs text-muted-foreground text-center', className)}>
+        ©{' '}
+        <a
+          href="https://www.openstreetmap.org/copyright"
+          target="_blank"
+          rel="noopener noreferrer"
+          className="underline"
+        >
+          OpenStreetMap
+        </a>{' '}
+        contributors
+      </p>
+    );
+  }
+
+  return null;
+};
+
+export default ProviderAttribution;
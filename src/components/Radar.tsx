@@ -7,27 +7,32 @@ import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
 import { Badge } from '@/components/ui/badge';
 import { Button } from '@/components/ui/button';
 import { Alert, AlertDescription } from '@/components/ui/alert';
+import { CUISINES } from '@/lib/cuisines';
+import { DEFAULT_RESTAURANT_FILTERS, filterRestaurants } from '@/lib/restaurantFilters';
+import { getRestaurantFacets } from '@/lib/restaurantFacets';
 
 const Radar: React.FC = () => {
   const { location, loading, error, getCurrentLocation } = useGeolocation();
   const [selectedFilter, setSelectedFilter] = useState<string>('all');
 
+  // The fixtures' distances aren't from the user, so distance isn't filtered
+  const filterState = { ...DEFAULT_RESTAURANT_FILTERS, cuisines: selectedFilter === 'all' ? [] : [selectedFilter] };
+  const filterOptions = { now: new Date(), except: ['distance' as const] };
+  const facets = getRestaurantFacets(mockRestaurants, filterState, filterOptions);
+
+  // Only cuisines found in the results, each with its count
   const filters = [
-    { id: 'all', label: 'All' },
-    { id: 'steakhouse', label: 'Steakhouse' },
-    { id: 'thai', label: 'Thai' },
-    { id: 'japanese', label: 'Japanese' },
-    { id: 'canadian', label: 'Canadian' },
+    { id: 'all', label: 'All', count: mockRestaurants.length },
+    ...CUISINES
+      .filter((cuisine) => facets.cuisines[cuisine.id])
+      .map((cuisine) => ({ id: cuisine.id, label: cuisine.label, count: facets.cuisines[cuisine.id] })),
   ];
 
   const getPriceLevel = (level: number) => {
     return '$'.repeat(level);
   };
 
-  const filteredRestaurants = mockRestaurants.filter(restaurant => {
-    if (selectedFilter === 'all') return true;
-    return restaurant.cuisine.toLowerCase().includes(selectedFilter.toLowerCase());
-  });
+  const filteredRestaurants = filterRestaurants(mockRestaurants, filterState, filterOptions);
 
   return (
     <div className="flex flex-col h-full pb-20">
@@ -80,7 +85,7 @@ const Radar: React.FC = () => {
                 className="cursor-pointer hover:bg-primary hover:text-primary-foreground transition-colors"
                 onClick={() => setSelectedFilter(filter.id)}
               >
-                {filter.label}
+                {filter.label} ({filter.count})
               </Badge>
             ))}
           </div>
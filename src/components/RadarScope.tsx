@@ -0,0 +1,114 @@
+import React from 'react';
+import { Compass } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { formatRingDistance, getRadarBlips, getRadarRings } from '@/lib/radar';
+import { getRatingColor, USER_LOCATION_COLOR } from '@/lib/mapView';
+import { useDeviceHeading } from '@/hooks/useDeviceHeading';
+import { Restaurant, UserLocation } from '@/types';
+
+interface RadarScopeProps {
+  origin: Pick<UserLocation, 'lat' | 'lng'>;
+  restaurants: Restaurant[];
+  // Outer ring, in meters
+  rangeMeters: number;
+  onOpen: (restaurant: Restaurant) => void;
+}
+
+// Scope radius in SVG units; the view box leaves room for the north marker
+const SCOPE_RADIUS = 100;
+
+// 30° wedge that sweeps round the scope
+const SWEEP_PATH = `M0 0 L0 ${-SCOPE_RADIUS} A${SCOPE_RADIUS} ${SCOPE_RADIUS} 0 0 1 ${SCOPE_RADIUS / 2} ${-SCOPE_RADIUS * Math.cos(Math.PI / 6)} Z`;
+
+// Restaurants plotted by bearing and distance. Turns with the device's compass
+// where there is one, and stays north-up otherwise.
+const RadarScope: React.FC<RadarScopeProps> = ({ origin, restaurants, rangeMeters, onOpen }) => {
+  const { heading, permission, requestPermission } = useDeviceHeading();
+  const blips = getRadarBlips(origin, restaurants, rangeMeters, heading);
+  const rings = getRadarRings(rangeMeters);
+  const northAngle = -(heading ?? 0);
+
+  return (
+    <div className="flex flex-col items-center">
+      <svg
+        viewBox="-115 -115 230 230"
+        className="w-full max-w-xs select-none"
+        role="img"
+        aria-label={`${blips.length} restaurants within ${formatRingDistance(rangeMeters)}`}
+      >
+        <circle r={SCOPE_RADIUS} className="fill-muted" />
+        <g
+          className="motion-safe:animate-[spin_6s_linear_infinite]"
+          style={{ transformBox: 'view-box', transformOrigin: 'center' }}
+        >
+          <path d={SWEEP_PATH} className="fill-primary/10" />
+        </g>
+        {rings.map((ring) => {
+          const radius = (ring / rangeMeters) * SCOPE_RADIUS;
+          return (
+            <g key={ring}>
+              <circle r={radius} className="fill-none stroke-border" />
+              <text x={2} y={-radius + 8} className="fill-muted-foreground text-[7px]">
+                {formatRingDistance(ring)}
+              </text>
+            </g>
+          );
+        })}
+        <line y1={-SCOPE_RADIUS} y2={SCOPE_RADIUS} className="stroke-border" />
+        <line x1={-SCOPE_RADIUS} x2={SCOPE_RADIUS} className="stroke-border" />
+
+        <g transform={`rotate(${northAngle})`}>
+          <text y={-SCOPE_RADIUS - 4} textAnchor="middle" className="fill-primary text-[10px] font-semibold">
+            N
+          </text>
+        </g>
+
+        {blips.map(({ restaurant, x, y, distanceMeters }) => (
+          <g
+            key={restaurant.id}
+            role="button"
+            tabIndex={0}
+            aria-label={`${restaurant.name}, ${formatRingDistance(distanceMeters)} away`}
+            className="cursor-pointer"
+            onClick={() => onOpen(restaurant)}
+            onKeyDown={(event) => {
+              if (event.key === 'Enter' || event.key === ' ') {
+                event.preventDefault();
+                onOpen(restaurant);
+              }
+            }}
+          >
+            <title>{restaurant.name}</title>
+            {/* Bigger invisible target for fingers */}
+            <circle cx={x * SCOPE_RADIUS} cy={y * SCOPE_RADIUS} r={9} className="fill-transparent" />
+            <circle
+              cx={x * SCOPE_RADIUS}
+              cy={y * SCOPE_RADIUS}
+              r={4.5}
+              fill={getRatingColor(restaurant.rating)}
+              stroke="#ffffff"
+              strokeWidth={1.5}
+            />
+          </g>
+        ))}
+
+        <circle r={5} fill={USER_LOCATION_COLOR} stroke="#ffffff" strokeWidth={2} />
+      </svg>
+
+      <div className="flex items-center text-xs text-muted-foreground mt-1">
+        <Compass className="h-3 w-3 mr-1" />
+        {heading !== null ? (
+          <span>Following your compass ({heading}°)</span>
+        ) : permission === 'prompt' ? (
+          <Button variant="link" size="sm" className="h-auto p-0 text-xs" onClick={requestPermission}>
+            Turn with my compass
+          </Button>
+        ) : (
+          <span>North up</span>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default RadarScope;
@@ -1,70 +1,131 @@
 import React, { useState } from 'react';
 import { Star, MapPin, DollarSign, Clock, Wifi, WifiOff } from 'lucide-react';
-import { mockRestaurants } from '@/data/mockData';
 import { useGeolocation } from '@/hooks/useGeolocation';
-import { useNearbyRestaurants } from '@/hooks/useGoogleMaps';
+import { usePrefetchPlaceDetails, useTiledNearbyRestaurants, useTravelTimes } from '@/hooks/useGoogleMaps';
+import { useEnrichmentPriority } from '@/hooks/useEnrichmentPriority';
+import { PlacesProviderContext, usePlacesProvider } from '@/hooks/usePlacesProvider';
+import { MOCK_DEFAULT_LOCATION, mockPlacesProvider } from '@/lib/mockPlaces';
+import { withPlacesResilience } from '@/lib/placesResilience';
 import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
 import { Badge } from '@/components/ui/badge';
 import { Button } from '@/components/ui/button';
 import { Alert, AlertDescription } from '@/components/ui/alert';
 import { Switch } from '@/components/ui/switch';
-import { getStaticMapUrl } from '@/lib/googleMaps';
-import { Slider } from '@/components/ui/slider';
+import { ToggleGroup, ToggleGroupItem } from '@/components/ui/toggle-group';
+import { getCuisineLabels } from '@/lib/cuisines';
+import { useNow } from '@/hooks/useNow';
+import { usePreferredTravelMode } from '@/hooks/usePreferredTravelMode';
+import { useRestaurantFilters } from '@/hooks/useRestaurantFilters';
+import { useDebouncedValue } from '@/hooks/useDebouncedValue';
+import { DEFAULT_RESTAURANT_FILTERS, filterRestaurants, MAX_FILTER_DISTANCE } from '@/lib/restaurantFilters';
+import { getRestaurantFacets } from '@/lib/restaurantFacets';
+import { RestaurantSort, sortRestaurants } from '@/lib/restaurantSort';
+import { getDistanceSearchRadius, SearchArea } from '@/lib/searchArea';
+import PlacesErrorAlert from './PlacesErrorAlert';
+import OpeningStatusBadge from './OpeningStatusBadge';
+import ResponsiveImage from './ResponsiveImage';
+import PhotoAttributions from './PhotoAttributions';
+import ProviderAttribution from './ProviderAttribution';
+import TravelTimeBadge from './TravelTimeBadge';
+import RestaurantSortSelect from './RestaurantSortSelect';
+import RestaurantFilterSheet from './RestaurantFilterSheet';
+import RestaurantMap from './RestaurantMap';
+import RadarScope from './RadarScope';
+import RestaurantDetail from './RestaurantDetail';
+
+// Simulated mock failures go through the same retries as live ones
+const demoProvider = withPlacesResilience(mockPlacesProvider);
+
+// Wait for the distance slider to settle before searching a new radius
+const SEARCH_RADIUS_DEBOUNCE_MS = 400;
+
+interface RadarViewProps {
+  useGoogleMaps: boolean;
+  onUseGoogleMapsChange: (value: boolean) => void;
+}
 
 /**
  * Example component showing Google Maps API integration
  * This demonstrates how to switch between mock data and real Google Maps data
  */
 const RadarWithGoogleMaps: React.FC = () => {
-  const { location, loading: locationLoading, error: locationError, getCurrentLocation } = useGeolocation();
-  const [selectedFilter, setSelectedFilter] = useState<string>('all');
   const [useGoogleMaps, setUseGoogleMaps] = useState(false);
-  const [distance, setDistance] = useState(2000); // default 2km
+  const liveProvider = usePlacesProvider();
+
+  // Demo mode swaps in the offline fixtures for every hook below
+  return (
+    <PlacesProviderContext.Provider value={useGoogleMaps ? liveProvider : demoProvider}>
+      <RadarView useGoogleMaps={useGoogleMaps} onUseGoogleMapsChange={setUseGoogleMaps} />
+    </PlacesProviderContext.Provider>
+  );
+};
+
+const RadarView: React.FC<RadarViewProps> = ({ useGoogleMaps, onUseGoogleMapsChange: setUseGoogleMaps }) => {
+  const { location, loading: locationLoading, error: locationError, getCurrentLocation } = useGeolocation();
+  const [filters, setFilters] = useRestaurantFilters();
+  const [sort, setSort] = useState<RestaurantSort>('distance');
+  // Set by "Search this area" on the map; replaces the circle around the user
+  const [mapArea, setMapArea] = useState<SearchArea | null>(null);
+  const [selectedId, setSelectedId] = useState<string | null>(null);
+  const [openedId, setOpenedId] = useState<string | null>(null);
+  const [view, setView] = useState<'radar' | 'map'>('radar');
+  const [travelMode] = usePreferredTravelMode();
+  const now = useNow();
+
+  // Mock data falls back to downtown Toronto until the user is located
+  const searchLocation = location || (useGoogleMaps ? null : MOCK_DEFAULT_LOCATION);
+  const searchCenter = mapArea?.center ?? searchLocation;
   
-  // Google Maps API integration
+  // Filters are applied on the client, so changing one never starts a new
+  // billable search; only the distance sets how far to search. The search is
+  // tiled so dense areas aren't cut off at 20 places.
+  const searchRadius = useDebouncedValue(getDistanceSearchRadius(filters.distance), SEARCH_RADIUS_DEBOUNCE_MS);
   const { 
-    restaurants: googleRestaurants, 
-    loading: googleLoading, 
-    error: googleError,
-    searchWithFilters
-  } = useNearbyRestaurants(useGoogleMaps ? location : null);
-
-  const filters = [
-    { id: 'all', label: 'All' },
-    { id: 'steakhouse', label: 'Steakhouse' },
-    { id: 'thai', label: 'Thai' },
-    { id: 'japanese', label: 'Japanese' },
-    { id: 'canadian', label: 'Canadian' },
-  ];
+    restaurants, 
+    loading, 
+    error: dataError,
+    refetch,
+    hasMore,
+    loadMore,
+    loadingMore,
+    tilesSearched,
+    totalTiles,
+  } = useTiledNearbyRestaurants(
+    searchCenter,
+    mapArea?.radius ?? searchRadius,
+    'restaurant',
+    mapArea?.bounds
+  );
+  const prefetchDetails = usePrefetchPlaceDetails();
+  const observeCard = useEnrichmentPriority(prefetchDetails);
+  // Unfiltered, so moving the distance slider doesn't request new ETAs
+  const { travelTimes } = useTravelTimes(searchLocation, restaurants, travelMode);
 
   const getPriceLevel = (level: number) => {
     return '$'.repeat(level);
   };
 
-  // Choose data source based on Google Maps toggle
-  const restaurants = useGoogleMaps ? googleRestaurants : mockRestaurants;
-  const loading = useGoogleMaps ? googleLoading : false;
-  const dataError = useGoogleMaps ? googleError : null;
+  // A searched map area is already clipped to the viewport
+  const filterOptions = { now, except: mapArea ? ['distance' as const] : [] };
+  const filteredRestaurants = filterRestaurants(restaurants, filters, filterOptions);
+  // From the unfiltered results, so every cuisine stays pickable
+  const facets = getRestaurantFacets(restaurants, filters, filterOptions);
+  const sortedRestaurants = sortRestaurants(filteredRestaurants, sort, { now, travelTimes });
 
-  // Filter restaurants based on selected cuisine and distance
-  const filteredRestaurants = restaurants.filter(restaurant => {
-    if (selectedFilter !== 'all' && !restaurant.cuisine.toLowerCase().includes(selectedFilter.toLowerCase())) {
-      return false;
-    }
-    return restaurant.distance <= distance / 1000; // restaurant.distance is in km
-  });
+  const relocate = () => {
+    setMapArea(null);
+    getCurrentLocation();
+  };
+
+  if (openedId) {
+    return <RestaurantDetail place_id={openedId} onBack={() => setOpenedId(null)} />;
+  }
 
-  // Handle cuisine-specific search for Google Maps
-  const handleFilterChange = async (filterId: string) => {
-    setSelectedFilter(filterId);
-    
-    if (useGoogleMaps && location && filterId !== 'all') {
-      // Use Google Maps text search for specific cuisines
-      try {
-        await searchWithFilters(location, 2000, filterId);
-      } catch (error) {
-        console.error('Failed to filter restaurants:', error);
-      }
+  // Markers select their card in the list below
+  const selectFromMap = (placeId: string | null) => {
+    setSelectedId(placeId);
+    if (placeId) {
+      document.getElementById(`radar-restaurant-${placeId}`)?.scrollIntoView({ behavior: 'smooth', block: 'nearest' });
     }
   };
 
@@ -107,15 +168,14 @@ const RadarWithGoogleMaps: React.FC = () => {
           </Alert>
         )}
 
-        {/* Google Maps API Error */}
-        {useGoogleMaps && dataError && (
-          <Alert className="mb-4" variant="destructive">
-            <AlertDescription>
-              Google Maps API Error: {dataError}
-              <br />
-              <span className="text-xs">Falling back to mock data...</span>
-            </AlertDescription>
-          </Alert>
+        {/* Places API Error */}
+        {dataError && (
+          <PlacesErrorAlert
+            className="mb-4"
+            error={dataError}
+            onRetry={() => refetch()}
+            alternative={useGoogleMaps ? { label: 'Use mock data', onClick: () => setUseGoogleMaps(false) } : undefined}
+          />
         )}
 
         {/* Loading State */}
@@ -125,7 +185,7 @@ const RadarWithGoogleMaps: React.FC = () => {
             <span className="ml-2 text-sm text-muted-foreground">
               {locationLoading 
                 ? 'Getting your location...' 
-                : 'Loading restaurants from Google Maps...'
+                : `Loading restaurants from ${useGoogleMaps ? 'Google Maps' : 'mock data'}...`
               }
             </span>
           </div>
@@ -156,7 +216,7 @@ const RadarWithGoogleMaps: React.FC = () => {
         {/* Add Detect My Location button at the top, after the title/description */}
         <div className="flex justify-center mt-4">
           <Button
-            onClick={getCurrentLocation}
+            onClick={relocate}
             disabled={locationLoading}
             className="flex items-center space-x-2 bg-gradient-to-r from-primary to-secondary hover:from-primary/90 hover:to-secondary/90"
           >
@@ -165,63 +225,67 @@ const RadarWithGoogleMaps: React.FC = () => {
           </Button>
         </div>
 
-        {/* Cuisine Filters */}
-        <div className="mb-6">
-          <div className="flex items-center justify-between mb-2">
-            <span className="text-sm font-medium">Filter by cuisine:</span>
+        {/* Filters and sort */}
+        <div className="mt-4 mb-4 flex items-center justify-between">
+          <RestaurantFilterSheet
+            filters={filters}
+            onChange={setFilters}
+            facets={facets}
+            resultCount={filteredRestaurants.length}
+            showDistance={mapArea === null}
+          />
+          <div className="flex items-center space-x-2">
+            <RestaurantSortSelect value={sort} onChange={setSort} travelMode={travelMode} />
             <Badge variant="outline" className="text-xs">
               {filteredRestaurants.length} results
             </Badge>
           </div>
-          <div className="flex flex-wrap gap-2">
-            {filters.map((filter) => (
-              <Badge
-                key={filter.id}
-                variant={selectedFilter === filter.id ? 'default' : 'secondary'}
-                className="cursor-pointer hover:bg-primary hover:text-primary-foreground transition-colors"
-                onClick={() => handleFilterChange(filter.id)}
-              >
-                {filter.label}
-              </Badge>
-            ))}
-          </div>
         </div>
 
-        {/* Add slider above cuisine filters */}
-        <div className="mb-6">
-          <div className="flex items-center justify-between mb-2">
-            <span className="text-sm font-medium">Distance: {distance}m</span>
-            <span className="text-xs text-muted-foreground">Showing restaurants within {distance} meters</span>
+        {mapArea && (
+          <div className="mb-6 flex items-center justify-between">
+            <span className="text-sm font-medium">Showing the searched map area</span>
+            <Button size="sm" variant="outline" onClick={() => setMapArea(null)}>
+              Back to my location
+            </Button>
           </div>
-          <Slider
-            min={50}
-            max={5000}
-            step={50}
-            value={[distance]}
-            onValueChange={([val]) => setDistance(val)}
-            className="w-full mb-2"
-          />
-        </div>
+        )}
 
-        {/* After cuisine filters and before Data Source Indicator, show map if location and restaurants exist */}
-        {useGoogleMaps && location && filteredRestaurants.length > 0 && (
-          <div className="mb-6 flex flex-col items-center">
-            <img
-              src={getStaticMapUrl(
-                location,
-                14,
-                600,
-                300,
-                [
-                  { lat: location.lat, lng: location.lng, label: 'U' },
-                  ...filteredRestaurants.map((r, i) => ({ lat: r.coordinates.lat, lng: r.coordinates.lng, label: String.fromCharCode(65 + (i % 26)) }))
-                ]
-              )}
-              alt="Map with restaurants"
-              className="rounded-lg border shadow"
-              style={{ maxWidth: '100%', height: 'auto' }}
+        {/* Radar scope, or the interactive map in sync with the list below */}
+        {useGoogleMaps && searchCenter && (
+          <ToggleGroup
+            type="single"
+            variant="outline"
+            size="sm"
+            value={view}
+            onValueChange={(value) => value && setView(value as 'radar' | 'map')}
+            className="mb-3"
+          >
+            <ToggleGroupItem value="radar" className="text-xs">Radar</ToggleGroupItem>
+            <ToggleGroupItem value="map" className="text-xs">Map</ToggleGroupItem>
+          </ToggleGroup>
+        )}
+        {searchLocation && (!useGoogleMaps || view === 'radar') && (
+          <div className="mb-6">
+            <RadarScope
+              origin={searchLocation}
+              restaurants={filteredRestaurants}
+              rangeMeters={mapArea ? MAX_FILTER_DISTANCE : filters.distance}
+              onOpen={(restaurant) => setOpenedId(restaurant.id)}
+            />
+          </div>
+        )}
+        {useGoogleMaps && searchCenter && view === 'map' && (
+          <div className="mb-6">
+            <RestaurantMap
+              center={searchCenter}
+              userLocation={location}
+              restaurants={filteredRestaurants}
+              travelTimes={travelTimes}
+              selectedId={selectedId}
+              onSelect={selectFromMap}
+              onSearchArea={setMapArea}
             />
-            <div className="text-xs text-muted-foreground mt-1">Map: U = You, A-Z = Restaurants</div>
           </div>
         )}
 
@@ -235,7 +299,7 @@ const RadarWithGoogleMaps: React.FC = () => {
               <p className="text-xs text-blue-600">
                 {useGoogleMaps 
                   ? 'Real-time restaurant data with live ratings and photos'
-                  : 'Sample Toronto restaurants for development'
+                  : 'Offline Toronto fixtures with simulated latency'
                 }
               </p>
             </div>
@@ -247,16 +311,24 @@ const RadarWithGoogleMaps: React.FC = () => {
 
         {/* Restaurant List */}
         <div className="space-y-4">
-          {filteredRestaurants.map((restaurant) => (
-            <Card key={restaurant.id} className="overflow-hidden hover:shadow-lg transition-shadow duration-200">
+          {sortedRestaurants.map((restaurant) => (
+            <Card
+              key={restaurant.id}
+              id={`radar-restaurant-${restaurant.id}`}
+              ref={observeCard(restaurant.id)}
+              onClick={() => setSelectedId(restaurant.id)}
+              className={`overflow-hidden hover:shadow-lg transition-shadow duration-200 cursor-pointer ${
+                restaurant.id === selectedId ? 'ring-2 ring-primary' : ''
+              }`}
+            >
               <div className="flex">
-                <img
+                <ResponsiveImage
                   src={restaurant.image}
                   alt={restaurant.name}
+                  aspectRatio={1}
+                  sizes="96px"
+                  attributions={restaurant.photoAttributions}
                   className="w-24 h-24 object-cover"
-                  onError={(e) => {
-                    e.currentTarget.src = '/placeholder.svg';
-                  }}
                 />
                 <div className="flex-1">
                   <CardHeader className="p-3 pb-2">
@@ -269,9 +341,12 @@ const RadarWithGoogleMaps: React.FC = () => {
                           </Badge>
                         )}
                       </CardTitle>
-                      <div className="flex items-center space-x-1 text-sm">
-                        <Clock className="h-3 w-3" />
-                        <span>{restaurant.distance.toFixed(1)}km</span>
+                      <div className="flex flex-col items-end text-sm">
+                        <div className="flex items-center space-x-1">
+                          <Clock className="h-3 w-3" />
+                          <span>{restaurant.distance.toFixed(1)}km</span>
+                        </div>
+                        <TravelTimeBadge travelTime={travelTimes[restaurant.id]} className="text-muted-foreground" />
                       </div>
                     </div>
                   </CardHeader>
@@ -283,9 +358,12 @@ const RadarWithGoogleMaps: React.FC = () => {
                           <Star className="h-4 w-4 text-yellow-400 fill-current" />
                           <span className="text-sm font-medium ml-1">{restaurant.rating}</span>
                         </div>
-                        <Badge variant="outline" className="text-xs">
-                          {restaurant.cuisine}
-                        </Badge>
+                        {getCuisineLabels(restaurant.cuisines, 2).map((label) => (
+                          <Badge key={label} variant="outline" className="text-xs">
+                            {label}
+                          </Badge>
+                        ))}
+                        <OpeningStatusBadge hours={restaurant.openingHours} />
                       </div>
                       <div className="flex items-center text-sm text-muted-foreground">
                         <DollarSign className="h-3 w-3" />
@@ -300,39 +378,43 @@ const RadarWithGoogleMaps: React.FC = () => {
                   </CardContent>
                 </div>
               </div>
-              {/* In the restaurant list, after the <img> in each card, show attributions if present */}
-              {restaurant.photoAttributions && restaurant.photoAttributions.length > 0 && (
-                <div className="text-[10px] text-muted-foreground mt-1">
-                  {restaurant.photoAttributions.map((attr, idx) => (
-                    <span key={idx}>
-                      Photo by{' '}
-                      {attr.uri ? (
-                        <a href={attr.uri.startsWith('http') ? attr.uri : `https:${attr.uri}`} target="_blank" rel="noopener noreferrer" className="underline hover:text-primary">
-                          {attr.displayName || 'Contributor'}
-                        </a>
-                      ) : (
-                        attr.displayName || 'Contributor'
-                      )}
-                    </span>
-                  ))}
-                </div>
-              )}
+              <PhotoAttributions
+                attributions={restaurant.photoAttributions}
+                className="text-muted-foreground px-3 pb-2"
+                linkClassName="hover:text-primary"
+              />
             </Card>
           ))}
         </div>
 
+        {/* Load More: searches the next ring of tiles */}
+        {hasMore && !loading && (
+          <div className="flex flex-col items-center mt-4">
+            <Button variant="outline" onClick={() => loadMore()} disabled={loadingMore}>
+              {loadingMore ? 'Searching more of the area...' : 'Load more restaurants'}
+            </Button>
+            {tilesSearched > 0 && (
+              <span className="text-xs text-muted-foreground mt-1">
+                Searched {tilesSearched} of {totalTiles} map tiles
+              </span>
+            )}
+          </div>
+        )}
+
+        {filteredRestaurants.length > 0 && <ProviderAttribution className="mt-4" />}
+
         {/* No Results */}
         {filteredRestaurants.length === 0 && !loading && (
           <div className="text-center py-8">
             <p className="text-muted-foreground">
-              No restaurants found for "{filters.find(f => f.id === selectedFilter)?.label}"
+              No restaurants match your filters
             </p>
             <Button 
               variant="outline" 
-              onClick={() => handleFilterChange('all')}
+              onClick={() => setFilters(DEFAULT_RESTAURANT_FILTERS)}
               className="mt-2"
             >
-              Show All Restaurants
+              Clear Filters
             </Button>
           </div>
         )}
@@ -0,0 +1,81 @@
+import React, { useEffect, useState } from 'react';
+import {
+  buildSrcSet,
+  getPlaceholderColor,
+  getPreviewUrl,
+  PLACEHOLDER_IMAGE,
+  recordImageLoad,
+} from '@/lib/responsiveImage';
+import { warnIfUnattributed } from '@/lib/attribution';
+import { PhotoAttribution } from '@/types';
+
+interface ResponsiveImageProps extends Omit<React.ImgHTMLAttributes<HTMLImageElement>, 'src' | 'srcSet' | 'loading'> {
+  src: string;
+  alt: string;
+  // Width / height of the box the image fills, used to size srcset candidates
+  aspectRatio?: number;
+  // Above-the-fold images load right away; everything else is lazy
+  priority?: boolean;
+  // Credits rendered alongside the image; Places photos must have them
+  attributions?: PhotoAttribution[];
+}
+
+// <img> with srcset for Places and Unsplash photos, a blurred preview or
+// colour while loading, and the placeholder if the image fails
+const ResponsiveImage: React.FC<ResponsiveImageProps> = ({
+  src,
+  alt,
+  aspectRatio = 4 / 3,
+  sizes = '100vw',
+  priority = false,
+  attributions,
+  style,
+  onLoad,
+  onError,
+  ...props
+}) => {
+  const [loaded, setLoaded] = useState(false);
+  const [failed, setFailed] = useState(false);
+
+  useEffect(() => {
+    setLoaded(false);
+    setFailed(false);
+  }, [src]);
+
+  useEffect(() => {
+    warnIfUnattributed(src, attributions);
+  }, [src, attributions]);
+
+  const srcSet = failed ? undefined : buildSrcSet(src, aspectRatio);
+  const preview = getPreviewUrl(src, aspectRatio);
+
+  return (
+    <img
+      {...props}
+      src={failed ? PLACEHOLDER_IMAGE : src}
+      srcSet={srcSet}
+      sizes={srcSet ? sizes : undefined}
+      alt={alt}
+      loading={priority ? 'eager' : 'lazy'}
+      decoding="async"
+      style={loaded ? style : {
+        backgroundColor: getPlaceholderColor(src),
+        backgroundImage: preview ? `url("${preview}")` : undefined,
+        backgroundSize: 'cover',
+        backgroundPosition: 'center',
+        ...style,
+      }}
+      onLoad={(event) => {
+        setLoaded(true);
+        recordImageLoad(event.currentTarget.currentSrc || event.currentTarget.src);
+        onLoad?.(event);
+      }}
+      onError={(event) => {
+        setFailed(true);
+        onError?.(event);
+      }}
+    />
+  );
+};
+
+export default ResponsiveImage;
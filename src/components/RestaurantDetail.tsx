@@ -1,13 +1,53 @@
 
-import React, { useState, useEffect } from 'react';
-import { ArrowLeft, Phone, Globe, Clock, Star, MapPin, Image as ImageIcon } from 'lucide-react';
+import React from 'react';
+import { ArrowLeft, Phone, Globe, Clock, Star, MapPin, Image as ImageIcon, Check, X } from 'lucide-react';
 import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
 import { Button } from '@/components/ui/button';
 import { Badge } from '@/components/ui/badge';
 import { Alert, AlertDescription } from '@/components/ui/alert';
-import { RestaurantDetails } from '@/types';
+import { BusinessStatus, PriceRange, RestaurantDetails } from '@/types';
 import { usePlaceDetails } from '@/hooks/useGoogleMaps';
-import { getPlacePhotoUrl } from '@/lib/googleMaps';
+import { usePlacesProvider } from '@/hooks/usePlacesProvider';
+import { getDetailsOpeningHours } from '@/lib/openingHours';
+import PlacesErrorAlert from './PlacesErrorAlert';
+import OpeningStatusBadge from './OpeningStatusBadge';
+import ResponsiveImage from './ResponsiveImage';
+import PhotoAttributions from './PhotoAttributions';
+import ProviderAttribution from './ProviderAttribution';
+import DirectionsButton from './DirectionsButton';
+
+// Only listed when the provider reports the attribute
+const AMENITIES: Array<{ key: keyof RestaurantDetails; label: string }> = [
+  { key: 'dine_in', label: 'Dine-in' },
+  { key: 'takeout', label: 'Takeout' },
+  { key: 'delivery', label: 'Delivery' },
+  { key: 'reservable', label: 'Reservations' },
+  { key: 'serves_vegetarian_food', label: 'Vegetarian options' },
+  { key: 'serves_alcohol', label: 'Serves alcohol' },
+  { key: 'outdoor_seating', label: 'Outdoor seating' },
+  { key: 'wheelchair_accessible_entrance', label: 'Wheelchair-accessible entrance' },
+];
+
+const BUSINESS_STATUS_LABELS: Record<BusinessStatus, string | null> = {
+  OPERATIONAL: null,
+  CLOSED_TEMPORARILY: 'Temporarily closed',
+  CLOSED_PERMANENTLY: 'Permanently closed',
+};
+
+// e.g. "CA$20–CA$40" or "CA$80+"
+const formatPriceRange = (range?: PriceRange) => {
+  if (!range || (range.start === undefined && range.end === undefined)) {
+    return null;
+  }
+  const format = (amount: number) => new Intl.NumberFormat(undefined, {
+    style: 'currency',
+    currency: range.currency,
+    maximumFractionDigits: 0,
+  }).format(amount);
+  if (range.end === undefined) return `${format(range.start)}+`;
+  if (range.start === undefined) return `Up to ${format(range.end)}`;
+  return `${format(range.start)}–${format(range.end)}`;
+};
 
 interface RestaurantDetailProps {
   place_id: string;
@@ -15,21 +55,8 @@ interface RestaurantDetailProps {
 }
 
 const RestaurantDetail: React.FC<RestaurantDetailProps> = ({ place_id, onBack }) => {
-  const [restaurant, setRestaurant] = useState<RestaurantDetails | null>(null);
-  const { fetchPlaceDetails, loading, error } = usePlaceDetails();
-
-  useEffect(() => {
-    const loadRestaurantDetails = async () => {
-      try {
-        const data = await fetchPlaceDetails(place_id);
-        setRestaurant(data);
-      } catch (err) {
-        console.error('Error loading restaurant details:', err);
-      }
-    };
-
-    loadRestaurantDetails();
-  }, [place_id, fetchPlaceDetails]);
+  const { details: restaurant, loading, error, refetch } = usePlaceDetails(place_id);
+  const provider = usePlacesProvider();
 
   if (loading) {
     return (
@@ -58,16 +85,17 @@ const RestaurantDetail: React.FC<RestaurantDetailProps> = ({ place_id, onBack })
           <h1 className="text-lg font-semibold">Restaurant Details</h1>
         </div>
         <div className="p-4">
-          <Alert>
-            <AlertDescription>
-              {error || 'Restaurant details not available'}
-              {error && (
-                <div className="mt-2 text-xs text-muted-foreground">
-                  Make sure Google Maps API is configured correctly with Places API enabled.
-                </div>
-              )}
-            </AlertDescription>
-          </Alert>
+          {error ? (
+            <PlacesErrorAlert
+              error={error}
+              onRetry={() => refetch()}
+              alternative={{ label: 'Back to results', onClick: onBack }}
+            />
+          ) : (
+            <Alert>
+              <AlertDescription>Restaurant details not available</AlertDescription>
+            </Alert>
+          )}
         </div>
       </div>
     );
@@ -86,6 +114,13 @@ const RestaurantDetail: React.FC<RestaurantDetailProps> = ({ place_id, onBack })
     ));
   };
 
+  const openingHours = getDetailsOpeningHours(restaurant);
+  const closedStatus = restaurant.business_status && BUSINESS_STATUS_LABELS[restaurant.business_status];
+  const priceRange = formatPriceRange(restaurant.price_range);
+  const amenities = AMENITIES
+    .filter(({ key }) => restaurant[key] !== undefined)
+    .map(({ key, label }) => ({ label, available: restaurant[key] as boolean }));
+
   return (
     <div className="flex flex-col h-full pb-20">
       <div className="flex items-center p-4 border-b bg-white/95 backdrop-blur-sm sticky top-0 z-10">
@@ -102,17 +137,57 @@ const RestaurantDetail: React.FC<RestaurantDetailProps> = ({ place_id, onBack })
             <CardHeader>
               <CardTitle className="flex items-center justify-between">
                 <span>{restaurant.name}</span>
-                <Badge variant={restaurant.opening_hours?.open_now ? 'default' : 'secondary'}>
-                  {restaurant.opening_hours?.open_now ? 'Open' : 'Closed'}
-                </Badge>
+                {closedStatus ? (
+                  <Badge variant="destructive">{closedStatus}</Badge>
+                ) : openingHours ? (
+                  <OpeningStatusBadge hours={openingHours} />
+                ) : restaurant.opening_hours && (
+                  <Badge variant={restaurant.opening_hours.open_now ? 'default' : 'secondary'}>
+                    {restaurant.opening_hours.open_now ? 'Open' : 'Closed'}
+                  </Badge>
+                )}
               </CardTitle>
               <div className="flex items-center space-x-1">
                 {renderStars(restaurant.rating)}
                 <span className="ml-2 text-sm font-medium">{restaurant.rating}</span>
+                {restaurant.user_ratings_total !== undefined && (
+                  <span className="text-sm text-muted-foreground">
+                    ({restaurant.user_ratings_total.toLocaleString()} reviews)
+                  </span>
+                )}
+                {priceRange && (
+                  <span className="text-sm text-muted-foreground">· {priceRange}</span>
+                )}
               </div>
+              {restaurant.editorial_summary && (
+                <p className="text-sm text-muted-foreground">{restaurant.editorial_summary}</p>
+              )}
             </CardHeader>
           </Card>
 
+          {/* Services & Amenities */}
+          {amenities.length > 0 && (
+            <Card>
+              <CardHeader>
+                <CardTitle className="text-base">Services & Amenities</CardTitle>
+              </CardHeader>
+              <CardContent>
+                <div className="grid grid-cols-2 gap-2">
+                  {amenities.map(({ label, available }) => (
+                    <div key={label} className={`flex items-center text-sm ${available ? '' : 'text-muted-foreground'}`}>
+                      {available ? (
+                        <Check className="h-4 w-4 mr-2 text-green-600" />
+                      ) : (
+                        <X className="h-4 w-4 mr-2" />
+                      )}
+                      {label}
+                    </div>
+                  ))}
+                </div>
+              </CardContent>
+            </Card>
+          )}
+
           {/* Contact Information */}
           <Card>
             <CardHeader>
@@ -185,12 +260,20 @@ const RestaurantDetail: React.FC<RestaurantDetailProps> = ({ place_id, onBack })
               <CardContent>
                 <div className="grid grid-cols-2 gap-2">
                   {restaurant.photos.slice(0, 4).filter(photo => photo.photo_reference).map((photo, index) => (
-                    <img
-                      key={index}
-                      src={getPlacePhotoUrl(photo.photo_reference, 400, 300)}
-                      alt={`${restaurant.name} photo ${index + 1}`}
-                      className="w-full h-24 object-cover rounded-md"
-                    />
+                    <div key={index}>
+                      <ResponsiveImage
+                        src={provider.getPhotoUrl(photo.photo_reference, 400, 300)}
+                        alt={`${restaurant.name} photo ${index + 1}`}
+                        sizes="(max-width: 448px) 50vw, 224px"
+                        attributions={photo.attributions}
+                        className="w-full h-24 object-cover rounded-md"
+                      />
+                      <PhotoAttributions
+                        attributions={photo.attributions}
+                        className="mt-1 text-muted-foreground"
+                        linkClassName="hover:text-primary"
+                      />
+                    </div>
                   ))}
                 </div>
               </CardContent>
@@ -199,17 +282,14 @@ const RestaurantDetail: React.FC<RestaurantDetailProps> = ({ place_id, onBack })
 
           {/* Action Buttons */}
           <div className="grid grid-cols-2 gap-4">
-            <Button 
-              variant="outline" 
-              onClick={() => {
-                const url = `https://www.google.com/maps/search/?api=1&query=${restaurant.name}&query_place_id=${restaurant.place_id}`;
-                window.open(url, '_blank');
+            <DirectionsButton
+              variant="outline"
+              destination={{
+                ...restaurant.geometry.location,
+                googlePlaceId: provider.id === 'google' ? restaurant.place_id : undefined,
               }}
               className="flex items-center space-x-2"
-            >
-              <MapPin className="h-4 w-4" />
-              <span>Directions</span>
-            </Button>
+            />
             
             {restaurant.formatted_phone_number && (
               <Button 
@@ -222,6 +302,8 @@ const RestaurantDetail: React.FC<RestaurantDetailProps> = ({ place_id, onBack })
               </Button>
             )}
           </div>
+
+          <ProviderAttribution />
         </div>
       </div>
     </div>
@@ -0,0 +1,221 @@
+import React from 'react';
+import { SlidersHorizontal } from 'lucide-react';
+import {
+  Sheet,
+  SheetClose,
+  SheetContent,
+  SheetDescription,
+  SheetFooter,
+  SheetHeader,
+  SheetTitle,
+  SheetTrigger,
+} from '@/components/ui/sheet';
+import { Badge } from '@/components/ui/badge';
+import { Button } from '@/components/ui/button';
+import { Checkbox } from '@/components/ui/checkbox';
+import { Label } from '@/components/ui/label';
+import { Slider } from '@/components/ui/slider';
+import { Switch } from '@/components/ui/switch';
+import { ToggleGroup, ToggleGroupItem } from '@/components/ui/toggle-group';
+import { CUISINES, getCuisineChildren, matchesCuisine } from '@/lib/cuisines';
+import { DIETARY_FLAGS, DIETARY_LABELS } from '@/lib/dietary';
+import { RestaurantFacets } from '@/lib/restaurantFacets';
+import {
+  countActiveFilters,
+  DEFAULT_RESTAURANT_FILTERS,
+  FILTER_DISTANCE_STEP,
+  MAX_FILTER_DISTANCE,
+  MAX_PRICE_LEVEL,
+  MIN_FILTER_DISTANCE,
+  MIN_PRICE_LEVEL,
+  MIN_RATING_OPTIONS,
+  RestaurantFilters,
+  toggleCuisineFilter,
+} from '@/lib/restaurantFilters';
+
+interface RestaurantFilterSheetProps {
+  filters: RestaurantFilters;
+  onChange: (filters: RestaurantFilters) => void;
+  // Counts for each option, from the current results
+  facets: RestaurantFacets;
+  // Matches for the current filters, shown on the close button
+  resultCount: number;
+  // Off while a searched map area replaces the circle around the user
+  showDistance?: boolean;
+}
+
+// Filter button that opens a bottom sheet; changes apply as they are made
+const RestaurantFilterSheet: React.FC<RestaurantFilterSheetProps> = ({
+  filters,
+  onChange,
+  facets,
+  resultCount,
+  showDistance = true,
+}) => {
+  const activeCount = countActiveFilters(filters);
+  const update = (changes: Partial<RestaurantFilters>) => onChange({ ...filters, ...changes });
+
+  // Top-level cuisines, then the children of every picked cuisine and of
+  // the cuisines above each pick. Cuisines without results are left out
+  // unless picked, so they can still be unpicked.
+  const isPicked = (id: string) => matchesCuisine(filters.cuisines, id);
+  const cuisineRows = [
+    getCuisineChildren(),
+    ...CUISINES.filter((cuisine) => isPicked(cuisine.id)).map((cuisine) => getCuisineChildren(cuisine.id)),
+  ]
+    .map((row) => row.filter((cuisine) => facets.cuisines[cuisine.id] || isPicked(cuisine.id)))
+    .filter((row) => row.length > 0);
+
+  const [minPrice, maxPrice] = filters.priceRange;
+
+  return (
+    <Sheet>
+      <SheetTrigger asChild>
+        <Button variant="outline" size="sm" className="h-8 text-xs">
+          <SlidersHorizontal className="h-3 w-3 mr-1" />
+          Filters
+          {activeCount > 0 && (
+            <Badge className="ml-1 h-4 px-1.5 text-[10px]">{activeCount}</Badge>
+          )}
+        </Button>
+      </SheetTrigger>
+      <SheetContent side="bottom" className="max-h-[85vh] overflow-y-auto max-w-md mx-auto rounded-t-lg">
+        <SheetHeader>
+          <SheetTitle>Filters</SheetTitle>
+          <SheetDescription>Saved in the page link, so you can share this view.</SheetDescription>
+        </SheetHeader>
+
+        <div className="space-y-6 py-4">
+          {showDistance && (
+            <div className="space-y-3">
+              <div className="flex items-center justify-between">
+                <Label>Distance</Label>
+                <span className="text-xs text-muted-foreground">Within {filters.distance} m</span>
+              </div>
+              <Slider
+                min={MIN_FILTER_DISTANCE}
+                max={MAX_FILTER_DISTANCE}
+                step={FILTER_DISTANCE_STEP}
+                value={[filters.distance]}
+                onValueChange={([distance]) => update({ distance })}
+              />
+            </div>
+          )}
+
+          <div className="space-y-3">
+            <div className="flex items-center justify-between">
+              <Label>Price</Label>
+              <span className="text-xs text-muted-foreground">
+                {minPrice === maxPrice ? '$'.repeat(minPrice) : `${'$'.repeat(minPrice)} – ${'$'.repeat(maxPrice)}`}
+              </span>
+            </div>
+            <Slider
+              min={MIN_PRICE_LEVEL}
+              max={MAX_PRICE_LEVEL}
+              step={1}
+              value={filters.priceRange}
+              onValueChange={([min, max]) => update({ priceRange: [min, max] })}
+              aria-label="Price range"
+            />
+            <div className="grid grid-cols-4 text-center text-xs text-muted-foreground">
+              {Object.entries(facets.priceLevels).map(([level, count]) => (
+                <span key={level}>
+                  {'$'.repeat(Number(level))} · {count}
+                </span>
+              ))}
+            </div>
+          </div>
+
+          <div className="space-y-3">
+            <Label>Rating</Label>
+            <ToggleGroup
+              type="single"
+              variant="outline"
+              size="sm"
+              value={String(filters.minRating)}
+              onValueChange={(value) => value && update({ minRating: Number(value) })}
+              className="justify-start"
+            >
+              {MIN_RATING_OPTIONS.map((rating) => (
+                <ToggleGroupItem
+                  key={rating}
+                  value={String(rating)}
+                  disabled={!facets.minRatings[rating] && rating !== filters.minRating}
+                  className="text-xs"
+                >
+                  {rating > 0 ? `${rating}+` : 'Any'} ({facets.minRatings[rating]})
+                </ToggleGroupItem>
+              ))}
+            </ToggleGroup>
+          </div>
+
+          <div className="flex items-center justify-between">
+            <Label htmlFor="filter-open-now">Open now ({facets.openNow})</Label>
+            <Switch
+              id="filter-open-now"
+              checked={filters.openNow}
+              onCheckedChange={(openNow) => update({ openNow })}
+            />
+          </div>
+
+          <div className="space-y-3">
+            <Label>Cuisines</Label>
+            {cuisineRows.length === 0 && (
+              <p className="text-xs text-muted-foreground">No cuisines in these results</p>
+            )}
+            {cuisineRows.map((row) => (
+              <div key={row[0].id} className="flex flex-wrap gap-2">
+                {row.map((cuisine) => (
+                  <Badge
+                    key={cuisine.id}
+                    variant={isPicked(cuisine.id) ? 'default' : 'secondary'}
+                    className="cursor-pointer hover:bg-primary hover:text-primary-foreground transition-colors"
+                    onClick={() => update({ cuisines: toggleCuisineFilter(filters.cuisines, cuisine.id) })}
+                  >
+                    {cuisine.label} ({facets.cuisines[cuisine.id] ?? 0})
+                  </Badge>
+                ))}
+              </div>
+            ))}
+          </div>
+
+          <div className="space-y-3">
+            <Label>Dietary</Label>
+            <div className="grid grid-cols-2 gap-2">
+              {DIETARY_FLAGS.map((flag) => (
+                <div key={flag} className="flex items-center space-x-2">
+                  <Checkbox
+                    id={`filter-diet-${flag}`}
+                    checked={filters.dietary.includes(flag)}
+                    disabled={!facets.dietary[flag] && !filters.dietary.includes(flag)}
+                    onCheckedChange={(checked) =>
+                      update({
+                        dietary: checked
+                          ? [...filters.dietary, flag]
+                          : filters.dietary.filter((selected) => selected !== flag),
+                      })
+                    }
+                  />
+                  <Label htmlFor={`filter-diet-${flag}`} className="font-normal">
+                    {DIETARY_LABELS[flag]} ({facets.dietary[flag]})
+                  </Label>
+                </div>
+              ))}
+            </div>
+          </div>
+        </div>
+
+        <SheetFooter className="gap-2">
+          <Button variant="outline" onClick={() => onChange(DEFAULT_RESTAURANT_FILTERS)} disabled={activeCount === 0}>
+            Reset
+          </Button>
+          <SheetClose asChild>
+            <Button>Show {resultCount} results</Button>
+          </SheetClose>
+        </SheetFooter>
+      </SheetContent>
+    </Sheet>
+  );
+};
+
+export default RestaurantFilterSheet;
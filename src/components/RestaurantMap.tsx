@@ -0,0 +1,348 @@
+import React, { useEffect, useMemo, useRef, useState } from 'react';
+import { Search, Star, X } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { getStaticMapUrl, loadMapsApi } from '@/lib/googleMaps';
+import {
+  boundsToViewport,
+  DEFAULT_MAP_ZOOM,
+  getClusterMarkerIcon,
+  getClusterMarkerLabel,
+  getRestaurantMarkerIcon,
+  getUserMarkerIcon,
+  LatLngLiteral,
+  MapsApi,
+  MapsCircle,
+  MapsEventListener,
+  MapsMap,
+  MapsMarker,
+  RATING_COLOR_STOPS,
+  toStaticMapMarkers,
+  USER_LOCATION_COLOR,
+} from '@/lib/mapView';
+import {
+  clusterRestaurants,
+  findRestaurantCluster,
+  getClusterExpansionZoom,
+  RestaurantCluster,
+} from '@/lib/markerClustering';
+import { getViewportSearchArea, SearchArea } from '@/lib/searchArea';
+import { meterRequest } from '@/lib/usageMeter';
+import { getCuisineLabels } from '@/lib/cuisines';
+import { usePlacesProvider } from '@/hooks/usePlacesProvider';
+import { Restaurant, TravelTime, UserLocation } from '@/types';
+import ResponsiveImage from './ResponsiveImage';
+import TravelTimeBadge from './TravelTimeBadge';
+import DirectionsButton from './DirectionsButton';
+
+interface RestaurantMapProps {
+  center: LatLngLiteral;
+  userLocation?: UserLocation | null;
+  restaurants: Restaurant[];
+  travelTimes?: Record<string, TravelTime>;
+  selectedId: string | null;
+  onSelect: (placeId: string | null) => void;
+  // Called with the visible area when the user asks to search it
+  onSearchArea: (area: SearchArea) => void;
+}
+
+// Google map with rating-coloured restaurant markers, clustered where they
+// would overlap, the user's position and a preview of the selected
+// restaurant. Falls back to a static image when the Maps JS API can't load.
+const RestaurantMap: React.FC<RestaurantMapProps> = ({
+  center,
+  userLocation,
+  restaurants,
+  travelTimes = {},
+  selectedId,
+  onSelect,
+  onSearchArea,
+}) => {
+  const containerRef = useRef<HTMLDivElement>(null);
+  const mapRef = useRef<MapsMap | null>(null);
+  const markersRef = useRef(new Map<string, MapsMarker>());
+  const userMarkerRef = useRef<MapsMarker | null>(null);
+  const accuracyCircleRef = useRef<MapsCircle | null>(null);
+  const centerRef = useRef(center);
+  const clustersRef = useRef<RestaurantCluster[]>([]);
+  const onSelectRef = useRef(onSelect);
+  // Set while the component zooms the map itself, which isn't the user moving it
+  const zoomingRef = useRef(false);
+  const provider = usePlacesProvider();
+  const [api, setApi] = useState<MapsApi | null>(null);
+  const [failed, setFailed] = useState(false);
+  const [moved, setMoved] = useState(false);
+  const [zoom, setZoom] = useState(DEFAULT_MAP_ZOOM);
+  const clusters = useMemo(() => clusterRestaurants(restaurants, zoom), [restaurants, zoom]);
+
+  // zoom_changed fires synchronously from setZoom
+  const zoomTo = (map: MapsMap, zoom: number) => {
+    zoomingRef.current = true;
+    try {
+      map.setZoom(zoom);
+    } finally {
+      zoomingRef.current = false;
+    }
+  };
+
+  useEffect(() => {
+    centerRef.current = center;
+    clustersRef.current = clusters;
+    onSelectRef.current = onSelect;
+  });
+
+  useEffect(() => {
+    let cancelled = false;
+    const listeners: MapsEventListener[] = [];
+    const markers = markersRef.current;
+
+    loadMapsApi()
+      .then((mapsApi) => {
+        if (cancelled || !containerRef.current) {
+          return;
+        }
+        meterRequest('dynamicMap');
+        const map = new mapsApi.Map(containerRef.current, {
+          center: centerRef.current,
+          zoom: DEFAULT_MAP_ZOOM,
+          disableDefaultUI: true,
+          zoomControl: true,
+          clickableIcons: false,
+          gestureHandling: 'greedy',
+        });
+        listeners.push(
+          map.addListener('dragend', () => setMoved(true)),
+          map.addListener('zoom_changed', () => {
+            setZoom(map.getZoom() ?? DEFAULT_MAP_ZOOM);
+            if (!zoomingRef.current) {
+              setMoved(true);
+            }
+          }),
+          map.addListener('click', () => onSelectRef.current(null))
+        );
+        mapRef.current = map;
+        setApi(mapsApi);
+      })
+      .catch((error) => {
+        if (!cancelled) {
+          console.warn('Interactive map unavailable, showing a static map:', error);
+          setFailed(true);
+        }
+      });
+
+    return () => {
+      cancelled = true;
+      listeners.forEach((listener) => listener.remove());
+      markers.forEach((marker) => marker.setMap(null));
+      markers.clear();
+      userMarkerRef.current?.setMap(null);
+      accuracyCircleRef.current?.setMap(null);
+      userMarkerRef.current = null;
+      accuracyCircleRef.current = null;
+      mapRef.current = null;
+    };
+  }, []);
+
+  // Follow the search center, e.g. after the user is located again
+  useEffect(() => {
+    if (!api || !mapRef.current) {
+      return;
+    }
+    mapRef.current.setCenter({ lat: center.lat, lng: center.lng });
+    setMoved(false);
+  }, [api, center.lat, center.lng]);
+
+  // One marker per cluster; single restaurants are keyed by place id
+  useEffect(() => {
+    const map = mapRef.current;
+    if (!api || !map) {
+      return;
+    }
+    const markers = markersRef.current;
+    const ids = new Set(clusters.map((cluster) => cluster.id));
+    markers.forEach((marker, id) => {
+      if (!ids.has(id)) {
+        marker.setMap(null);
+        markers.delete(id);
+      }
+    });
+
+    clusters.forEach((cluster) => {
+      let marker = markers.get(cluster.id);
+      if (!marker) {
+        marker = new api.Marker({ map, position: cluster.center });
+        marker.addListener('click', () => {
+          if (cluster.restaurants.length === 1) {
+            onSelectRef.current(cluster.id);
+          } else {
+            map.setCenter(cluster.center);
+            zoomTo(map, getClusterExpansionZoom(cluster, map.getZoom() ?? DEFAULT_MAP_ZOOM));
+          }
+        });
+        markers.set(cluster.id, marker);
+      }
+      marker.setPosition(cluster.center);
+      if (cluster.restaurants.length === 1) {
+        const [restaurant] = cluster.restaurants;
+        const selected = restaurant.id === selectedId;
+        marker.setTitle(restaurant.name);
+        marker.setIcon(getRestaurantMarkerIcon(api, restaurant.rating, selected));
+        marker.setLabel(null);
+        marker.setZIndex(selected ? 1000 : 1);
+      } else {
+        const rating = cluster.averageRating === null ? 'unrated' : `average ${cluster.averageRating.toFixed(1)}★`;
+        marker.setTitle(`${cluster.restaurants.length} restaurants, ${rating}`);
+        marker.setIcon(getClusterMarkerIcon(api, cluster));
+        marker.setLabel(getClusterMarkerLabel(cluster));
+        marker.setZIndex(500);
+      }
+    });
+  }, [api, clusters, selectedId]);
+
+  // Bring a restaurant picked from the list into view, zooming in until its
+  // cluster splits
+  useEffect(() => {
+    const map = mapRef.current;
+    const cluster = selectedId ? findRestaurantCluster(clustersRef.current, selectedId) : undefined;
+    if (!api || !map || !cluster) {
+      return;
+    }
+    const selected = cluster.restaurants.find((restaurant) => restaurant.id === selectedId);
+    map.panTo(selected.coordinates);
+    if (cluster.restaurants.length > 1) {
+      zoomTo(map, getClusterExpansionZoom(cluster, map.getZoom() ?? DEFAULT_MAP_ZOOM));
+    }
+  }, [api, selectedId]);
+
+  const userLat = userLocation?.lat;
+  const userLng = userLocation?.lng;
+  const accuracy = userLocation?.accuracy;
+  useEffect(() => {
+    const map = mapRef.current;
+    if (!api || !map || userLat === undefined || userLng === undefined) {
+      return;
+    }
+    const position = { lat: userLat, lng: userLng };
+    if (!userMarkerRef.current) {
+      userMarkerRef.current = new api.Marker({ map, icon: getUserMarkerIcon(api), title: 'You are here', zIndex: 2000 });
+    }
+    userMarkerRef.current.setPosition(position);
+
+    if (!accuracy) {
+      accuracyCircleRef.current?.setMap(null);
+      accuracyCircleRef.current = null;
+      return;
+    }
+    if (!accuracyCircleRef.current) {
+      accuracyCircleRef.current = new api.Circle({
+        map,
+        clickable: false,
+        fillColor: USER_LOCATION_COLOR,
+        fillOpacity: 0.12,
+        strokeColor: USER_LOCATION_COLOR,
+        strokeOpacity: 0.4,
+        strokeWeight: 1,
+      });
+    }
+    accuracyCircleRef.current.setCenter(position);
+    accuracyCircleRef.current.setRadius(accuracy);
+  }, [api, userLat, userLng, accuracy]);
+
+  const searchThisArea = () => {
+    const bounds = mapRef.current?.getBounds();
+    if (bounds) {
+      onSearchArea(getViewportSearchArea(boundsToViewport(bounds)));
+      setMoved(false);
+    }
+  };
+
+  if (failed) {
+    return (
+      <div className="flex flex-col items-center">
+        <img
+          src={getStaticMapUrl(center, DEFAULT_MAP_ZOOM, 600, 300, toStaticMapMarkers(clusters, userLocation))}
+          alt="Map with restaurants"
+          className="rounded-lg border shadow"
+          style={{ maxWidth: '100%', height: 'auto' }}
+        />
+        <div className="text-xs text-muted-foreground mt-1">Map: U = You, numbers = groups of restaurants</div>
+      </div>
+    );
+  }
+
+  const selected = restaurants.find((restaurant) => restaurant.id === selectedId);
+
+  return (
+    <div>
+      <div className="relative h-72 rounded-lg border shadow overflow-hidden bg-muted">
+        <div ref={containerRef} className="absolute inset-0" />
+
+        {moved && (
+          <Button
+            size="sm"
+            variant="secondary"
+            onClick={searchThisArea}
+            className="absolute top-2 left-1/2 -translate-x-1/2 shadow-md"
+          >
+            <Search className="h-3 w-3 mr-1" />
+            Search this area
+          </Button>
+        )}
+
+        {selected && (
+          <div className="absolute bottom-2 left-2 right-2 flex bg-white rounded-lg shadow-lg overflow-hidden">
+            <ResponsiveImage
+              src={selected.image}
+              alt={selected.name}
+              aspectRatio={1}
+              sizes="80px"
+              attributions={selected.photoAttributions}
+              className="w-20 h-20 object-cover"
+            />
+            <div className="flex-1 min-w-0 p-2">
+              <div className="flex items-start justify-between">
+                <p className="text-sm font-semibold truncate">{selected.name}</p>
+                <button
+                  type="button"
+                  onClick={() => onSelect(null)}
+                  aria-label="Close preview"
+                  className="text-muted-foreground hover:text-foreground"
+                >
+                  <X className="h-4 w-4" />
+                </button>
+              </div>
+              <div className="flex items-center space-x-2 text-xs text-muted-foreground">
+                <span className="flex items-center">
+                  <Star className="h-3 w-3 mr-0.5 text-yellow-400 fill-current" />
+                  {selected.rating || '–'}
+                </span>
+                <span className="truncate">{getCuisineLabels(selected.cuisines, 1)[0]}</span>
+                <span>{selected.distance.toFixed(1)}km</span>
+                <TravelTimeBadge travelTime={travelTimes[selected.id]} />
+              </div>
+              <DirectionsButton
+                size="sm"
+                variant="outline"
+                destination={{
+                  ...selected.coordinates,
+                  googlePlaceId: provider.id === 'google' ? selected.id : undefined,
+                }}
+                className="h-7 mt-1 text-xs space-x-1"
+              />
+            </div>
+          </div>
+        )}
+      </div>
+
+      <div className="flex items-center justify-center flex-wrap gap-3 mt-2 text-xs text-muted-foreground">
+        {RATING_COLOR_STOPS.map((stop) => (
+          <span key={stop.label} className="flex items-center">
+            <span className="h-2.5 w-2.5 rounded-full mr-1" style={{ backgroundColor: stop.color }} />
+            {stop.label}
+          </span>
+        ))}
+      </div>
+    </div>
+  );
+};
+
+export default RestaurantMap;
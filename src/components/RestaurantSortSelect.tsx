@@ -0,0 +1,29 @@
+import React from 'react';
+import { ArrowUpDown } from 'lucide-react';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { getSortLabel, RESTAURANT_SORTS, RestaurantSort } from '@/lib/restaurantSort';
+import { TravelMode } from '@/types';
+
+interface RestaurantSortSelectProps {
+  value: RestaurantSort;
+  onChange: (value: RestaurantSort) => void;
+  travelMode: TravelMode;
+}
+
+const RestaurantSortSelect: React.FC<RestaurantSortSelectProps> = ({ value, onChange, travelMode }) => (
+  <Select value={value} onValueChange={(sort) => onChange(sort as RestaurantSort)}>
+    <SelectTrigger className="h-8 w-auto text-xs" aria-label="Sort restaurants">
+      <ArrowUpDown className="h-3 w-3 mr-1" />
+      <SelectValue />
+    </SelectTrigger>
+    <SelectContent>
+      {RESTAURANT_SORTS.map((sort) => (
+        <SelectItem key={sort} value={sort} className="text-xs">
+          {getSortLabel(sort, travelMode)}
+        </SelectItem>
+      ))}
+    </SelectContent>
+  </Select>
+);
+
+export default RestaurantSortSelect;
@@ -0,0 +1,44 @@
+import React from 'react';
+import { Navigation } from 'lucide-react';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { ToggleGroup, ToggleGroupItem } from '@/components/ui/toggle-group';
+import { TRAVEL_MODE_LABELS, TRAVEL_MODES } from '@/lib/travelTime';
+import { usePreferredTravelMode } from '@/hooks/usePreferredTravelMode';
+import { TravelMode } from '@/types';
+import { TravelModeIcon } from './TravelTimeBadge';
+
+const TravelSettings: React.FC = () => {
+  const [travelMode, setTravelMode] = usePreferredTravelMode();
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="text-base flex items-center">
+          <Navigation className="h-4 w-4 mr-2" />
+          Travel Mode
+        </CardTitle>
+      </CardHeader>
+      <CardContent className="space-y-3">
+        <p className="text-sm text-muted-foreground">
+          Travel times on restaurant cards and the travel-time sort use this mode.
+        </p>
+        <ToggleGroup
+          type="single"
+          variant="outline"
+          value={travelMode}
+          onValueChange={(mode) => mode && setTravelMode(mode as TravelMode)}
+          className="justify-start"
+        >
+          {TRAVEL_MODES.map((mode) => (
+            <ToggleGroupItem key={mode} value={mode} aria-label={TRAVEL_MODE_LABELS[mode]} className="text-sm">
+              <TravelModeIcon mode={mode} className="h-4 w-4 mr-1" />
+              {TRAVEL_MODE_LABELS[mode]}
+            </ToggleGroupItem>
+          ))}
+        </ToggleGroup>
+      </CardContent>
+    </Card>
+  );
+};
+
+export default TravelSettings;
@@ -0,0 +1,40 @@
+import React from 'react';
+import { Car, Footprints, TrainFront } from 'lucide-react';
+import { cn } from '@/lib/utils';
+import { formatTravelTime } from '@/lib/travelTime';
+import { TravelMode, TravelTime } from '@/types';
+
+interface TravelTimeBadgeProps {
+  travelTime?: TravelTime;
+  className?: string;
+}
+
+const modeIcons: Record<TravelMode, React.ElementType> = {
+  walk: Footprints,
+  transit: TrainFront,
+  drive: Car,
+};
+
+export const TravelModeIcon: React.FC<{ mode: TravelMode; className?: string }> = ({ mode, className }) => {
+  const Icon = modeIcons[mode];
+  return <Icon className={className} />;
+};
+
+// "12 min" with the travel mode's icon; estimates are prefixed with "~"
+const TravelTimeBadge: React.FC<TravelTimeBadgeProps> = ({ travelTime, className }) => {
+  if (!travelTime) {
+    return null;
+  }
+
+  return (
+    <span
+      className={cn('inline-flex items-center text-xs whitespace-nowrap', className)}
+      title={travelTime.estimated ? 'Estimated from distance' : undefined}
+    >
+      <TravelModeIcon mode={travelTime.mode} className="h-3 w-3 mr-1" />
+      {travelTime.estimated ? '~' : ''}{formatTravelTime(travelTime)}
+    </span>
+  );
+};
+
+export default TravelTimeBadge;
@@ -0,0 +1,107 @@
+import React, { useEffect, useState } from 'react';
+import { Gauge, X } from 'lucide-react';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import {
+  getUsageSnapshot,
+  MAPS_SKUS,
+  resetUsage,
+  SKU_LABELS,
+  SKU_PRICES_PER_1000,
+  subscribeUsage,
+  UsageSnapshot,
+} from '@/lib/usageMeter';
+
+const formatUsd = (amount: number) => `$${amount.toFixed(amount < 1 ? 3 : 2)}`;
+
+const formatBudget = (spent: number, budget?: number) =>
+  budget === undefined ? formatUsd(spent) : `${formatUsd(spent)} / ${formatUsd(budget)}`;
+
+// Hidden developer panel with Google Maps request counters.
+// Toggle with Ctrl+Shift+M, or open with `?devtools` in the URL.
+const UsagePanel: React.FC = () => {
+  const [open, setOpen] = useState(() => new URLSearchParams(window.location.search).has('devtools'));
+  const [usage, setUsage] = useState<UsageSnapshot>(getUsageSnapshot);
+
+  useEffect(() => subscribeUsage(setUsage), []);
+
+  useEffect(() => {
+    const handleKeyDown = (event: KeyboardEvent) => {
+      if (event.ctrlKey && event.shiftKey && event.key.toLowerCase() === 'm') {
+        setOpen((current) => !current);
+      }
+    };
+    window.addEventListener('keydown', handleKeyDown);
+    return () => window.removeEventListener('keydown', handleKeyDown);
+  }, []);
+
+  if (!open) {
+    return null;
+  }
+
+  return (
+    <Card className="fixed bottom-24 right-4 z-50 w-80 shadow-lg">
+      <CardHeader className="pb-2">
+        <CardTitle className="flex items-center justify-between text-sm">
+          <span className="flex items-center">
+            <Gauge className="h-4 w-4 mr-2" />
+            Maps API usage
+          </span>
+          <Button variant="ghost" size="sm" className="h-6 w-6 p-0" onClick={() => setOpen(false)} aria-label="Close">
+            <X className="h-4 w-4" />
+          </Button>
+        </CardTitle>
+      </CardHeader>
+      <CardContent className="space-y-3 text-xs">
+        <table className="w-full">
+          <thead>
+            <tr className="text-muted-foreground">
+              <th className="text-left font-normal">SKU</th>
+              <th className="text-right font-normal">Session</th>
+              <th className="text-right font-normal">Today</th>
+              <th className="text-right font-normal">$/1k</th>
+            </tr>
+          </thead>
+          <tbody>
+            {MAPS_SKUS.map((sku) => (
+              <tr key={sku}>
+                <td>{SKU_LABELS[sku]}</td>
+                <td className="text-right tabular-nums">{usage.session[sku]}</td>
+                <td className="text-right tabular-nums">{usage.daily[sku]}</td>
+                <td className="text-right tabular-nums text-muted-foreground">{SKU_PRICES_PER_1000[sku]}</td>
+              </tr>
+            ))}
+          </tbody>
+        </table>
+
+        <div className="space-y-1">
+          <div className="flex justify-between">
+            <span className="text-muted-foreground">Session cost</span>
+            <span className="tabular-nums">{formatBudget(usage.sessionCost, usage.budgets.sessionUsd)}</span>
+          </div>
+          <div className="flex justify-between">
+            <span className="text-muted-foreground">Today ({usage.date})</span>
+            <span className="tabular-nums">{formatBudget(usage.dailyCost, usage.budgets.dailyUsd)}</span>
+          </div>
+        </div>
+
+        <div className="flex items-center justify-between">
+          <Badge variant={usage.overBudget ? 'destructive' : 'secondary'}>
+            {usage.overBudget ? 'Over budget: using cached/demo data' : 'Within budget'}
+          </Badge>
+          <div className="flex gap-1">
+            <Button variant="outline" size="sm" className="h-6 px-2 text-xs" onClick={() => resetUsage('session')}>
+              Reset session
+            </Button>
+            <Button variant="outline" size="sm" className="h-6 px-2 text-xs" onClick={() => resetUsage('daily')}>
+              Reset today
+            </Button>
+          </div>
+        </div>
+      </CardContent>
+    </Card>
+  );
+};
+
+export default UsagePanel;
@@ -57,6 +57,7 @@ export const mockRestaurants: Restaurant[] = [
     address: '165 York St, Toronto, ON',
     coordinates: { lat: 43.6481, lng: -79.3817 },
     cuisine: 'Steakhouse',
+    cuisines: ['steakhouse'],
     priceLevel: 3,
     image: 'https://images.unsplash.com/photo-1544025162-d76694265947?w=400&h=300&fit=crop',
     distance: 0.8,
@@ -68,6 +69,7 @@ export const mockRestaurants: Restaurant[] = [
     address: '18 Duncan St, Toronto, ON',
     coordinates: { lat: 43.6465, lng: -79.3908 },
     cuisine: 'Thai',
+    cuisines: ['thai'],
     priceLevel: 2,
     image: 'https://images.unsplash.com/photo-1559847844-d721426d6edc?w=400&h=300&fit=crop',
     distance: 1.2,
@@ -79,6 +81,7 @@ export const mockRestaurants: Restaurant[] = [
     address: '1 Richmond St W, Toronto, ON',
     coordinates: { lat: 43.6505, lng: -79.3789 },
     cuisine: 'Canadian',
+    cuisines: ['canadian'],
     priceLevel: 4,
     image: 'https://images.unsplash.com/photo-1517248135467-4c7edcad34c4?w=400&h=300&fit=crop',
     distance: 0.5,
@@ -90,6 +93,7 @@ export const mockRestaurants: Restaurant[] = [
     address: '93 Front St E, Toronto, ON',
     coordinates: { lat: 43.6487, lng: -79.3716 },
     cuisine: 'Market Food',
+    cuisines: [],
     priceLevel: 2,
     image: 'https://images.unsplash.com/photo-1506368249639-73a05d6f6488?w=400&h=300&fit=crop',
     distance: 1.5,
@@ -101,6 +105,7 @@ export const mockRestaurants: Restaurant[] = [
     address: '66 Wellington St W, Toronto, ON',
     coordinates: { lat: 43.6475, lng: -79.3813 },
     cuisine: 'Fine Dining',
+    cuisines: ['fine_dining'],
     priceLevel: 4,
     image: 'https://images.unsplash.com/photo-1414235077428-338989a2e8c0?w=400&h=300&fit=crop',
     distance: 0.9,
@@ -112,6 +117,7 @@ export const mockRestaurants: Restaurant[] = [
     address: '421 Dundas St W, Toronto, ON',
     coordinates: { lat: 43.6554, lng: -79.3951 },
     cuisine: 'Japanese',
+    cuisines: ['ramen'],
     priceLevel: 2,
     image: 'https://images.unsplash.com/photo-1569718212165-3a8278d5f624?w=400&h=300&fit=crop',
     distance: 2.1,
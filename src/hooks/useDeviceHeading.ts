@@ -0,0 +1,74 @@
+import { useCallback, useEffect, useState } from 'react';
+import { normalizeDegrees } from '@/lib/geo';
+
+// 'prompt' is iOS, where compass access needs a tap first
+export type HeadingPermission = 'granted' | 'denied' | 'prompt' | 'unsupported';
+
+type CompassEvent = DeviceOrientationEvent & { webkitCompassHeading?: number };
+
+type DeviceOrientationEventWithPermission = typeof DeviceOrientationEvent & {
+  requestPermission?: () => Promise<'granted' | 'denied'>;
+};
+
+const getOrientationEvent = () =>
+  typeof DeviceOrientationEvent === 'undefined'
+    ? undefined
+    : (DeviceOrientationEvent as DeviceOrientationEventWithPermission);
+
+const getInitialPermission = (): HeadingPermission => {
+  const OrientationEvent = getOrientationEvent();
+  if (!OrientationEvent) {
+    return 'unsupported';
+  }
+  return typeof OrientationEvent.requestPermission === 'function' ? 'prompt' : 'granted';
+};
+
+// Degrees clockwise from north that the top of the screen faces, or null
+// when the event has no absolute reading (desktops, uncalibrated sensors)
+const getCompassHeading = (event: CompassEvent): number | null => {
+  let heading: number | null = null;
+  if (typeof event.webkitCompassHeading === 'number') {
+    heading = event.webkitCompassHeading;
+  } else if (event.absolute && event.alpha !== null) {
+    // alpha turns counter-clockwise
+    heading = 360 - event.alpha;
+  }
+  if (heading === null) {
+    return null;
+  }
+  return normalizeDegrees(heading + (window.screen?.orientation?.angle ?? 0));
+};
+
+// Compass heading from DeviceOrientation. Stays null where there is no
+// compass, so callers can fall back to north-up.
+export const useDeviceHeading = () => {
+  const [permission, setPermission] = useState<HeadingPermission>(getInitialPermission);
+  const [heading, setHeading] = useState<number | null>(null);
+
+  useEffect(() => {
+    if (permission !== 'granted') {
+      return;
+    }
+    const handleOrientation = (event: Event) => {
+      const next = getCompassHeading(event as CompassEvent);
+      if (next !== null) {
+        setHeading(Math.round(next) % 360);
+      }
+    };
+    // Chrome only reports north-referenced angles on the absolute event
+    const eventName = 'ondeviceorientationabsolute' in window ? 'deviceorientationabsolute' : 'deviceorientation';
+    window.addEventListener(eventName, handleOrientation);
+    return () => window.removeEventListener(eventName, handleOrientation);
+  }, [permission]);
+
+  const requestPermission = useCallback(async () => {
+    try {
+      const result = await getOrientationEvent()?.requestPermission?.();
+      setPermission(result === 'granted' ? 'granted' : 'denied');
+    } catch {
+      setPermission('denied');
+    }
+  }, []);
+
+  return { heading, permission, requestPermission };
+};
@@ -0,0 +1,79 @@
+import { useCallback, useEffect, useRef } from 'react';
+import { EnrichmentScheduler, photoEnrichmentScheduler } from '@/lib/photoEnrichment';
+
+// Tracks which restaurant cards are on screen so their photos are fetched first.
+// `onVisible` is called whenever a card scrolls into view.
+// Returns a ref factory: `<Card ref={observe(restaurant.id)}>`
+export const useEnrichmentPriority = (
+  onVisible?: (placeId: string) => void,
+  scheduler: EnrichmentScheduler = photoEnrichmentScheduler
+) => {
+  const observerRef = useRef<IntersectionObserver | null>(null);
+  const onVisibleRef = useRef(onVisible);
+  const elements = useRef(new Map<string, Element>());
+  const placeIds = useRef(new WeakMap<Element, string>());
+
+  useEffect(() => {
+    onVisibleRef.current = onVisible;
+  }, [onVisible]);
+
+  useEffect(() => {
+    if (typeof IntersectionObserver === 'undefined') {
+      return;
+    }
+
+    const observer = new IntersectionObserver(
+      (entries) => {
+        entries.forEach((entry) => {
+          const placeId = placeIds.current.get(entry.target);
+          if (placeId) {
+            scheduler.setVisible(placeId, entry.isIntersecting);
+            if (entry.isIntersecting) {
+              onVisibleRef.current?.(placeId);
+            }
+          }
+        });
+      },
+      { rootMargin: '200px 0px' }
+    );
+    observerRef.current = observer;
+    elements.current.forEach((element) => observer.observe(element));
+
+    const tracked = elements.current;
+    return () => {
+      observer.disconnect();
+      observerRef.current = null;
+      tracked.forEach((_, placeId) => scheduler.setVisible(placeId, false));
+    };
+  }, [scheduler]);
+
+  // One stable callback per place, so React only passes null when the card unmounts
+  const callbacks = useRef(new Map<string, (element: Element | null) => void>());
+
+  return useCallback((placeId: string) => {
+    let callback = callbacks.current.get(placeId);
+    if (!callback) {
+      callback = (element: Element | null) => {
+        const previous = elements.current.get(placeId);
+        if (previous === element) {
+          return;
+        }
+        if (previous) {
+          observerRef.current?.unobserve(previous);
+          elements.current.delete(placeId);
+        }
+        if (!element) {
+          // Gone from the list: it must not keep jumping the queue
+          callbacks.current.delete(placeId);
+          scheduler.setVisible(placeId, false);
+          return;
+        }
+        elements.current.set(placeId, element);
+        placeIds.current.set(element, placeId);
+        observerRef.current?.observe(element);
+      };
+      callbacks.current.set(placeId, callback);
+    }
+    return callback;
+  }, [scheduler]);
+};
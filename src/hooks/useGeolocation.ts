@@ -29,9 +29,9 @@ export const useGeolocation = () => {
 
     navigator.geolocation.getCurrentPosition(
       (position) => {
-        const { latitude, longitude } = position.coords;
+        const { latitude, longitude, accuracy } = position.coords;
         setState({
-          location: { lat: latitude, lng: longitude },
+          location: { lat: latitude, lng: longitude, accuracy },
           loading: false,
           error: null,
         });
@@ -1,220 +1,324 @@
-import { useState, useEffect, useCallback } from 'react';
-import { Restaurant, RestaurantDetails, UserLocation } from '@/types';
+import { useState, useEffect, useCallback, useMemo } from 'react';
+import { keepPreviousData, useInfiniteQuery, useQuery, useQueryClient, UseQueryResult } from '@tanstack/react-query';
 import {
-  searchNearbyRestaurants,
-  getPlaceDetails,
-  reverseGeocode,
-  searchPlacesByText,
-  enhanceRestaurantsWithPhotos,
-  searchLocationsByText,
   LocationSearchResult,
-} from '@/lib/googleMaps';
-
-// Hook for searching nearby restaurants
-export const useNearbyRestaurants = (location: UserLocation | null, radius: number = 2000) => {
-  const [restaurants, setRestaurants] = useState<Restaurant[]>([]);
-  const [loading, setLoading] = useState(false);
-  const [error, setError] = useState<string | null>(null);
-
-  const searchRestaurants = useCallback(async (
-    userLocation: UserLocation,
-    searchRadius: number = radius,
-    type: string = 'restaurant'
-  ) => {
-    setLoading(true);
-    setError(null);
-
-    try {
-      // First, get basic restaurant data
-      const basicResults = await searchNearbyRestaurants(userLocation, searchRadius, type);
-      
-      // Set basic results immediately for faster UI response
-      setRestaurants(basicResults);
-      
-      // Then enhance with photos in the background
-      const enhancedResults = await enhanceRestaurantsWithPhotos(basicResults);
-      
-      // Update with enhanced results
-      setRestaurants(enhancedResults);
-    } catch (err) {
-      setError(err instanceof Error ? err.message : 'Failed to fetch restaurants');
-      setRestaurants([]);
-    } finally {
-      setLoading(false);
-    }
-  }, [radius]);
+  PlacePrediction,
+  Restaurant,
+  TravelMode,
+  TravelTime,
+  UserLocation,
+  Viewport,
+} from '@/types';
+import { enrichRestaurants, needsPhotoEnrichment } from '@/lib/photoEnrichment';
+import { isAbortError } from '@/lib/abort';
+import { PlacesError, toPlacesError } from '@/lib/placesErrors';
+import {
+  locationSearchQuery,
+  nearbyRestaurantsQuery,
+  placeDetailsQuery,
+  placePredictionsQuery,
+  placeTextSearchQuery,
+  resolvedPredictionQuery,
+  reverseGeocodeQuery,
+  tiledNearbyRestaurantsQuery,
+  travelTimesQuery,
+} from '@/lib/placesQueries';
+import { mergeNearbyPages } from '@/lib/tiledSearch';
+import { AUTOCOMPLETE_DEBOUNCE_MS, createSessionToken } from '@/lib/placesAutocomplete';
+import { estimateTravelTimes } from '@/lib/travelTime';
+import { usePlacesProvider } from '@/hooks/usePlacesProvider';
+import { useDebouncedValue } from '@/hooks/useDebouncedValue';
+
+const NO_RESTAURANTS: Restaurant[] = [];
+
+// Loading means "nothing to show for the current key yet": background
+// refetches of data already on screen don't count
+const isLoadingResults = (query: UseQueryResult<unknown>) =>
+  query.isFetching && (query.isPending || query.isPlaceholderData);
+
+const getPlacesError = (error: Error | null) => (error ? toPlacesError(error) : null);
+
+// Photos are fetched after the search resolves so cards render right away,
+// then merged in one by one as they arrive. `enriching` holds the ids still
+// waiting on theirs; the rest keep whatever image they ended up with.
+const useEnrichedRestaurants = (restaurants: Restaurant[] | undefined) => {
+  const provider = usePlacesProvider();
+  const [photos, setPhotos] = useState<Record<string, Pick<Restaurant, 'image' | 'photoAttributions'>>>({});
 
   useEffect(() => {
-    if (location) {
-      searchRestaurants(location);
+    if (!restaurants?.length) {
+      return;
     }
-  }, [location, searchRestaurants]);
+
+    const controller = new AbortController();
+    enrichRestaurants(restaurants, provider, (enriched) => {
+      setPhotos((current) => ({
+        ...current,
+        [enriched.id]: { image: enriched.image, photoAttributions: enriched.photoAttributions },
+      }));
+    }, controller.signal).catch((err) => {
+      if (!isAbortError(err)) {
+        console.warn('Photo enrichment failed:', err);
+      }
+    });
+    return () => controller.abort();
+  }, [restaurants, provider]);
+
+  const enriched = useMemo(
+    () => (restaurants || NO_RESTAURANTS).map((restaurant) =>
+      photos[restaurant.id] ? { ...restaurant, ...photos[restaurant.id] } : restaurant
+    ),
+    [restaurants, photos]
+  );
+  const enriching = useMemo(
+    () => new Set(enriched.filter((restaurant) => needsPhotoEnrichment(restaurant) && !photos[restaurant.id])
+      .map((restaurant) => restaurant.id)),
+    [enriched, photos]
+  );
+
+  return { restaurants: enriched, enriching };
+};
+
+// Hook for searching nearby restaurants
+export const useNearbyRestaurants = (
+  location: UserLocation | null,
+  radius: number = 2000,
+  type: string = 'restaurant'
+) => {
+  const provider = usePlacesProvider();
+  const query = useQuery({
+    ...nearbyRestaurantsQuery(provider, location, radius, type),
+    // Keep the previous results on screen while a new filter loads
+    placeholderData: keepPreviousData,
+  });
+  const { restaurants, enriching } = useEnrichedRestaurants(location ? query.data : undefined);
 
   return {
     restaurants,
-    loading,
-    error,
-    refetch: () => location && searchRestaurants(location),
-    searchWithFilters: searchRestaurants,
+    enriching,
+    loading: isLoadingResults(query),
+    error: getPlacesError(query.error),
+    refetch: query.refetch,
   };
 };
 
-// Hook for getting place details
-export const usePlaceDetails = () => {
-  const [loading, setLoading] = useState(false);
-  const [error, setError] = useState<string | null>(null);
+// Nearby search that grows past the 20-result cap by searching tiles of the
+// circle, one page at a time. Only dense areas ever get a second page.
+// `bounds` clips the circle to a rectangle, such as a city's viewport.
+export const useTiledNearbyRestaurants = (
+  location: UserLocation | null,
+  radius: number = 2000,
+  type: string = 'restaurant',
+  bounds?: Viewport
+) => {
+  const provider = usePlacesProvider();
+  const query = useInfiniteQuery({
+    ...tiledNearbyRestaurantsQuery(provider, location, radius, type, bounds),
+    placeholderData: keepPreviousData,
+  });
+  const pages = query.data?.pages;
+  const merged = useMemo(() => (pages ? mergeNearbyPages(pages) : undefined), [pages]);
+  const { restaurants, enriching } = useEnrichedRestaurants(location ? merged : undefined);
+  const lastPage = pages?.[pages.length - 1];
 
-  const fetchPlaceDetails = useCallback(async (placeId: string): Promise<RestaurantDetails | null> => {
-    setLoading(true);
-    setError(null);
+  return {
+    restaurants,
+    enriching,
+    loading: isLoadingResults(query),
+    error: getPlacesError(query.error),
+    refetch: query.refetch,
+    hasMore: query.hasNextPage && !query.isPlaceholderData,
+    loadMore: query.fetchNextPage,
+    loadingMore: query.isFetchingNextPage,
+    tilesSearched: lastPage?.tilesSearched ?? 0,
+    totalTiles: lastPage?.totalTiles ?? 0,
+  };
+};
 
-    try {
-      const details = await getPlaceDetails(placeId);
-      return details;
-    } catch (err) {
-      setError(err instanceof Error ? err.message : 'Failed to fetch place details');
-      return null;
-    } finally {
-      setLoading(false);
-    }
-  }, []);
+// Hook for getting place details
+export const usePlaceDetails = (placeId: string | null) => {
+  const provider = usePlacesProvider();
+  const query = useQuery(placeDetailsQuery(provider, placeId));
 
   return {
-    fetchPlaceDetails,
-    loading,
-    error,
+    details: query.data ?? null,
+    loading: query.isLoading,
+    error: getPlacesError(query.error),
+    refetch: query.refetch,
   };
 };
 
-// Hook for reverse geocoding
-export const useReverseGeocode = () => {
-  const [loading, setLoading] = useState(false);
-  const [error, setError] = useState<string | null>(null);
+// Warm the details cache for a place, e.g. when its card scrolls into view
+export const usePrefetchPlaceDetails = () => {
+  const queryClient = useQueryClient();
+  const provider = usePlacesProvider();
 
-  const getAddressFromCoordinates = useCallback(async (lat: number, lng: number): Promise<string> => {
-    setLoading(true);
-    setError(null);
+  return useCallback((placeId: string) => {
+    queryClient.prefetchQuery(placeDetailsQuery(provider, placeId));
+  }, [queryClient, provider]);
+};
 
-    try {
-      const address = await reverseGeocode(lat, lng);
-      return address;
-    } catch (err) {
-      setError(err instanceof Error ? err.message : 'Failed to get address');
-      return `${lat.toFixed(4)}, ${lng.toFixed(4)}`;
-    } finally {
-      setLoading(false);
-    }
-  }, []);
+// Hook for reverse geocoding
+export const useReverseGeocode = (location: UserLocation | null) => {
+  const provider = usePlacesProvider();
+  const query = useQuery(reverseGeocodeQuery(provider, location));
 
   return {
-    getAddressFromCoordinates,
-    loading,
-    error,
+    address: query.data ?? null,
+    loading: query.isLoading,
+    error: getPlacesError(query.error),
   };
 };
 
+interface PlaceSearchParams {
+  query: string;
+  location?: UserLocation;
+  radius?: number;
+}
+
 // Hook for text-based place search
 export const usePlaceSearch = () => {
-  const [results, setResults] = useState<Restaurant[]>([]);
-  const [loading, setLoading] = useState(false);
-  const [error, setError] = useState<string | null>(null);
-
-  const searchPlaces = useCallback(async (
-    query: string,
-    location?: UserLocation,
-    radius?: number
-  ) => {
-    if (!query.trim()) {
-      setResults([]);
-      return;
-    }
-
-    setLoading(true);
-    setError(null);
-
-    try {
-      // First, get basic search results
-      const basicResults = await searchPlacesByText(query, location, radius);
-      
-      // Set basic results immediately for faster UI response
-      setResults(basicResults);
-      
-      // Then enhance with photos in the background
-      const enhancedResults = await enhanceRestaurantsWithPhotos(basicResults);
-      
-      // Update with enhanced results
-      setResults(enhancedResults);
-    } catch (err) {
-      setError(err instanceof Error ? err.message : 'Failed to search places');
-      setResults([]);
-    } finally {
-      setLoading(false);
-    }
+  const [params, setParams] = useState<PlaceSearchParams>({ query: '' });
+  const provider = usePlacesProvider();
+  const searchQuery = params.query.trim();
+  const query = useQuery({
+    ...placeTextSearchQuery(provider, searchQuery, params.location, params.radius),
+    placeholderData: keepPreviousData,
+  });
+  const { restaurants: results } = useEnrichedRestaurants(searchQuery ? query.data : undefined);
+
+  const searchPlaces = useCallback((searchText: string, location?: UserLocation, radius?: number) => {
+    setParams({ query: searchText, location, radius });
   }, []);
 
   const clearResults = useCallback(() => {
-    setResults([]);
-    setError(null);
+    setParams({ query: '' });
   }, []);
 
   return {
     results,
-    loading,
-    error,
+    loading: isLoadingResults(query),
+    error: searchQuery ? getPlacesError(query.error) : null,
     searchPlaces,
     clearResults,
+    refetch: query.refetch,
   };
 };
 
 // Hook for location search
 export const useLocationSearch = () => {
-  const [results, setResults] = useState<LocationSearchResult[]>([]);
-  const [loading, setLoading] = useState(false);
-  const [error, setError] = useState<string | null>(null);
+  const [searchText, setSearchText] = useState('');
+  const provider = usePlacesProvider();
+  const searchQuery = searchText.trim();
+  const query = useQuery({
+    ...locationSearchQuery(provider, searchQuery),
+    placeholderData: keepPreviousData,
+  });
 
-  const searchLocations = useCallback(async (query: string) => {
-    if (!query.trim()) {
-      setResults([]);
-      return;
-    }
+  const clearResults = useCallback(() => {
+    setSearchText('');
+  }, []);
 
-    setLoading(true);
-    setError(null);
+  return {
+    results: (searchQuery && query.data) || [],
+    loading: isLoadingResults(query),
+    error: searchQuery ? getPlacesError(query.error) : null,
+    searchLocations: setSearchText,
+    clearResults,
+    refetch: query.refetch,
+  };
+};
 
+// Debounced autocomplete biased to `location`. Predictions are only resolved
+// to a location once one is picked, which also starts a new session.
+export const usePlacesAutocomplete = (location: UserLocation | null) => {
+  const [input, setInput] = useState('');
+  const [sessionToken, setSessionToken] = useState(createSessionToken);
+  const [resolving, setResolving] = useState(false);
+  const [resolveError, setResolveError] = useState<PlacesError | null>(null);
+  const provider = usePlacesProvider();
+  const queryClient = useQueryClient();
+  const debouncedInput = useDebouncedValue(input.trim(), AUTOCOMPLETE_DEBOUNCE_MS);
+  const query = useQuery({
+    ...placePredictionsQuery(provider, debouncedInput, location, sessionToken),
+    placeholderData: keepPreviousData,
+  });
+
+  const search = useCallback((value: string) => {
+    setInput(value);
+    setResolveError(null);
+  }, []);
+
+  const clear = useCallback(() => {
+    setInput('');
+    setResolveError(null);
+  }, []);
+
+  const selectPrediction = useCallback(async (prediction: PlacePrediction): Promise<LocationSearchResult | null> => {
+    setResolving(true);
+    setResolveError(null);
     try {
-      const locations = await searchLocationsByText(query);
-      setResults(locations);
-    } catch (err) {
-      setError(err instanceof Error ? err.message : 'Failed to search locations');
-      setResults([]);
+      const result = await queryClient.fetchQuery(resolvedPredictionQuery(provider, prediction.place_id, sessionToken));
+      setInput('');
+      setSessionToken(createSessionToken());
+      return result;
+    } catch (error) {
+      if (!isAbortError(error)) {
+        setResolveError(toPlacesError(error));
+      }
+      return null;
     } finally {
-      setLoading(false);
+      setResolving(false);
     }
-  }, []);
+  }, [provider, queryClient, sessionToken]);
 
-  const clearResults = useCallback(() => {
-    setResults([]);
-    setError(null);
-  }, []);
+  const active = Boolean(input.trim());
+  return {
+    predictions: (active && debouncedInput && query.data) || [],
+    loading: active && (input.trim() !== debouncedInput || isLoadingResults(query)),
+    resolving,
+    error: resolveError ?? (active ? getPlacesError(query.error) : null),
+    search,
+    clear,
+    selectPrediction,
+    refetch: query.refetch,
+  };
+};
+
+// Routed ETAs are billed per restaurant, so only the first few are requested
+const MAX_ROUTED_TRAVEL_TIMES = 25;
+
+// ETAs from `origin` keyed by restaurant id. Offline estimates fill in until
+// the provider answers, and for restaurants past the routed ones.
+export const useTravelTimes = (origin: UserLocation | null, restaurants: Restaurant[], mode: TravelMode) => {
+  const provider = usePlacesProvider();
+  const destinations = useMemo(
+    () => restaurants.map((restaurant) => ({ id: restaurant.id, ...restaurant.coordinates })),
+    [restaurants]
+  );
+  const routed = useMemo(() => destinations.slice(0, MAX_ROUTED_TRAVEL_TIMES), [destinations]);
+  const query = useQuery(travelTimesQuery(provider, origin, routed, mode));
+
+  const travelTimes = useMemo<Record<string, TravelTime>>(
+    () => (origin ? { ...estimateTravelTimes(origin, destinations, mode), ...query.data } : {}),
+    [origin, destinations, mode, query.data]
+  );
 
   return {
-    results,
-    loading,
-    error,
-    searchLocations,
-    clearResults,
+    travelTimes,
+    loading: isLoadingResults(query),
+    error: getPlacesError(query.error),
   };
 };
 
 // Enhanced geolocation hook with reverse geocoding
 export const useEnhancedGeolocation = () => {
-  const [location, setLocation] = useState<UserLocation | null>(null);
-  const [address, setAddress] = useState<string>('');
+  const [coordinates, setCoordinates] = useState<UserLocation | null>(null);
   const [loading, setLoading] = useState(false);
   const [error, setError] = useState<string | null>(null);
-  const { getAddressFromCoordinates } = useReverseGeocode();
+  const { address: resolvedAddress, loading: addressLoading, error: addressError } = useReverseGeocode(coordinates);
 
-  const getCurrentLocation = useCallback(async () => {
+  const getCurrentLocation = useCallback(() => {
     setLoading(true);
     setError(null);
 
@@ -225,21 +329,9 @@ export const useEnhancedGeolocation = () => {
     }
 
     navigator.geolocation.getCurrentPosition(
-      async (position) => {
+      (position) => {
         const { latitude, longitude } = position.coords;
-        const newLocation = { lat: latitude, lng: longitude };
-        setLocation(newLocation);
-
-        // Get human-readable address
-        try {
-          const addressResult = await getAddressFromCoordinates(latitude, longitude);
-          setAddress(addressResult);
-          setLocation({ ...newLocation, address: addressResult });
-        } catch (err) {
-          console.warn('Failed to get address for coordinates:', err);
-          setAddress(`${latitude.toFixed(4)}, ${longitude.toFixed(4)}`);
-        }
-
+        setCoordinates({ lat: latitude, lng: longitude });
         setLoading(false);
       },
       (error) => {
@@ -264,17 +356,32 @@ export const useEnhancedGeolocation = () => {
         maximumAge: 300000, // 5 minutes
       }
     );
-  }, [getAddressFromCoordinates]);
+  }, []);
 
   useEffect(() => {
     getCurrentLocation();
   }, [getCurrentLocation]);
 
+  useEffect(() => {
+    if (addressError) {
+      console.warn('Failed to get address for coordinates:', addressError.message);
+    }
+  }, [addressError]);
+
+  // Fall back to raw coordinates when the address lookup fails
+  const address = resolvedAddress ||
+    (coordinates && addressError ? `${coordinates.lat.toFixed(4)}, ${coordinates.lng.toFixed(4)}` : '');
+
+  const location = useMemo(
+    () => (coordinates && resolvedAddress ? { ...coordinates, address: resolvedAddress } : coordinates),
+    [coordinates, resolvedAddress]
+  );
+
   return {
     location,
     address,
-    loading,
+    loading: loading || addressLoading,
     error,
     getCurrentLocation,
   };
-}; 
\ No newline at end of file
+};
\ No newline at end of file
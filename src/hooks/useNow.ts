@@ -0,0 +1,13 @@
+import { useEffect, useState } from 'react';
+
+// Current time, refreshed every `intervalMs` so time-based labels stay current
+export const useNow = (intervalMs: number = 60 * 1000) => {
+  const [now, setNow] = useState(() => new Date());
+
+  useEffect(() => {
+    const timer = setInterval(() => setNow(new Date()), intervalMs);
+    return () => clearInterval(timer);
+  }, [intervalMs]);
+
+  return now;
+};
@@ -0,0 +1,7 @@
+import { createContext, useContext } from 'react';
+import { PlacesProvider, resolveDefaultPlacesProvider } from '@/lib/placesProvider';
+
+// Supplies the active places backend to the Google Maps hooks
+export const PlacesProviderContext = createContext<PlacesProvider>(resolveDefaultPlacesProvider());
+
+export const usePlacesProvider = () => useContext(PlacesProviderContext);
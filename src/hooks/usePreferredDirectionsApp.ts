@@ -0,0 +1,8 @@
+import { useSyncExternalStore } from 'react';
+import { getPreferredDirectionsApp, setPreferredDirectionsApp, subscribeDirectionsApp } from '@/lib/directions';
+
+// The map app every "Directions" action opens, kept across visits
+export const usePreferredDirectionsApp = () => {
+  const app = useSyncExternalStore(subscribeDirectionsApp, getPreferredDirectionsApp);
+  return [app, setPreferredDirectionsApp] as const;
+};
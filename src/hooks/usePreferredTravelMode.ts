@@ -0,0 +1,8 @@
+import { useSyncExternalStore } from 'react';
+import { getPreferredTravelMode, setPreferredTravelMode, subscribeTravelMode } from '@/lib/travelTime';
+
+// The travel mode shown on cards, shared by every screen and kept across visits
+export const usePreferredTravelMode = () => {
+  const mode = useSyncExternalStore(subscribeTravelMode, getPreferredTravelMode);
+  return [mode, setPreferredTravelMode] as const;
+};
@@ -0,0 +1,19 @@
+import { useCallback, useMemo } from 'react';
+import { useSearchParams } from 'react-router-dom';
+import { parseRestaurantFilters, RestaurantFilters, writeRestaurantFilters } from '@/lib/restaurantFilters';
+
+// Filters kept in the query string, so a filtered list can be shared and
+// survives reloads and tab switches
+export const useRestaurantFilters = () => {
+  const [searchParams, setSearchParams] = useSearchParams();
+  const query = searchParams.toString();
+  const filters = useMemo(() => parseRestaurantFilters(new URLSearchParams(query)), [query]);
+
+  // Replaces the history entry so dragging a slider doesn't flood the back button
+  const setFilters = useCallback(
+    (next: RestaurantFilters) => setSearchParams((current) => writeRestaurantFilters(current, next), { replace: true }),
+    [setSearchParams]
+  );
+
+  return [filters, setFilters] as const;
+};
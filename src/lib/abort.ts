@@ -0,0 +1,48 @@
+// Cancellation helpers shared by the places service layer and hooks
+
+export class PlacesAbortError extends Error {
+  constructor(message: string = 'The request was aborted') {
+    super(message);
+    this.name = 'AbortError';
+  }
+}
+
+export function isAbortError(error: unknown): boolean {
+  return error instanceof PlacesAbortError ||
+    (typeof DOMException !== 'undefined' && error instanceof DOMException && error.name === 'AbortError');
+}
+
+export function throwIfAborted(signal?: AbortSignal): void {
+  if (signal?.aborted) {
+    throw new PlacesAbortError();
+  }
+}
+
+// Reject as soon as the signal aborts. The Google Maps JS API has no native
+// cancellation, so the underlying request still completes but is ignored.
+export function withAbort<T>(promise: Promise<T>, signal?: AbortSignal): Promise<T> {
+  if (!signal) {
+    return promise;
+  }
+  if (signal.aborted) {
+    return Promise.reject(new PlacesAbortError());
+  }
+  return new Promise<T>((resolve, reject) => {
+    const onAbort = () => reject(new PlacesAbortError());
+    signal.addEventListener('abort', onAbort, { once: true });
+    promise.then(
+      (value) => {
+        signal.removeEventListener('abort', onAbort);
+        resolve(value);
+      },
+      (error) => {
+        signal.removeEventListener('abort', onAbort);
+        reject(error);
+      }
+    );
+  });
+}
+
+export function abortableDelay(ms: number, signal?: AbortSignal): Promise<void> {
+  return withAbort(new Promise<void>((resolve) => setTimeout(resolve, ms)), signal);
+}
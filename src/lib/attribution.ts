@@ -0,0 +1,50 @@
+// Attribution rules for places data: photo author credits and provider branding
+import { PhotoAttribution } from '@/types';
+import { isPlacesPhotoUrl } from '@/lib/responsiveImage';
+
+export type ProviderBranding = 'google' | 'openStreetMap';
+
+// Google requires its branding next to Places data shown without a Google map,
+// and OpenStreetMap's licence asks for credit wherever its data appears
+const PROVIDER_BRANDING: Record<string, ProviderBranding> = {
+  google: 'google',
+  osm: 'openStreetMap',
+};
+
+export function getProviderBranding(providerId: string, onGoogleMap = false): ProviderBranding | null {
+  const branding = PROVIDER_BRANDING[providerId] ?? null;
+  return branding === 'google' && onGoogleMap ? null : branding;
+}
+
+// Places returns contributor links without a scheme ("//maps.google.com/...")
+export function normalizeAttributionUri(uri: string | null | undefined): string | undefined {
+  if (!uri) {
+    return undefined;
+  }
+  return uri.startsWith('//') ? `https:${uri}` : uri;
+}
+
+// The legacy API credits photo authors as HTML snippets, usually a single link
+export function parseHtmlAttributions(html: string[] = []): PhotoAttribution[] {
+  return html.flatMap((snippet) => {
+    const doc = new DOMParser().parseFromString(snippet, 'text/html');
+    const link = doc.querySelector('a');
+    const displayName = (link ?? doc.body).textContent?.trim();
+    if (!displayName) {
+      return [];
+    }
+    return [{ displayName, uri: normalizeAttributionUri(link?.getAttribute('href')) }];
+  });
+}
+
+const warnedPhotos = new Set<string>();
+
+// Development check that every Places photo on screen is shown with its
+// author credits; nothing runs in production builds
+export function warnIfUnattributed(src: string, attributions: PhotoAttribution[] | undefined): void {
+  if (!import.meta.env.DEV || attributions?.length || !isPlacesPhotoUrl(src) || warnedPhotos.has(src)) {
+    return;
+  }
+  warnedPhotos.add(src);
+  console.warn('Google Places photo rendered without author attributions:', src);
+}
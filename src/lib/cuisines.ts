@@ -0,0 +1,203 @@
+// Cuisine taxonomy: Google place types and OSM cuisine tags mapped onto one
+// hierarchy, e.g. Asian → Japanese → Ramen
+
+export interface CuisineNode {
+  id: string;
+  label: string;
+  parent?: string;
+  // Google Places primary/secondary types tagged with this cuisine
+  types?: string[];
+  // OSM `cuisine` values and other spellings, matched like ids
+  aliases?: string[];
+}
+
+export const CUISINES: CuisineNode[] = [
+  // Asian
+  { id: 'asian', label: 'Asian', types: ['asian_restaurant', 'asian_fusion_restaurant'], aliases: ['fusion'] },
+  { id: 'chinese', label: 'Chinese', parent: 'asian', types: ['chinese_restaurant'] },
+  { id: 'cantonese', label: 'Cantonese', parent: 'chinese', types: ['cantonese_restaurant'] },
+  { id: 'dim_sum', label: 'Dim Sum', parent: 'chinese', types: ['dim_sum_restaurant'] },
+  { id: 'sichuan', label: 'Sichuan', parent: 'chinese', types: ['sichuan_restaurant'], aliases: ['szechuan'] },
+  { id: 'dumplings', label: 'Dumplings', parent: 'chinese', types: ['dumpling_restaurant'], aliases: ['dumpling'] },
+  { id: 'hot_pot', label: 'Hot Pot', parent: 'chinese', types: ['hot_pot_restaurant'] },
+  { id: 'chinese_noodles', label: 'Noodles', parent: 'chinese', types: ['chinese_noodle_restaurant', 'noodle_shop'], aliases: ['noodle'] },
+  { id: 'taiwanese', label: 'Taiwanese', parent: 'asian', types: ['taiwanese_restaurant'], aliases: ['bubble_tea'] },
+  { id: 'japanese', label: 'Japanese', parent: 'asian', types: ['japanese_restaurant', 'japanese_izakaya_restaurant'], aliases: ['izakaya'] },
+  { id: 'ramen', label: 'Ramen', parent: 'japanese', types: ['ramen_restaurant'] },
+  { id: 'sushi', label: 'Sushi', parent: 'japanese', types: ['sushi_restaurant'] },
+  { id: 'yakitori', label: 'Yakitori', parent: 'japanese', types: ['yakitori_restaurant'] },
+  { id: 'tonkatsu', label: 'Tonkatsu', parent: 'japanese', types: ['tonkatsu_restaurant'] },
+  { id: 'korean', label: 'Korean', parent: 'asian', types: ['korean_restaurant'] },
+  { id: 'korean_barbecue', label: 'Korean BBQ', parent: 'korean', types: ['korean_barbecue_restaurant'] },
+  { id: 'thai', label: 'Thai', parent: 'asian', types: ['thai_restaurant'] },
+  { id: 'vietnamese', label: 'Vietnamese', parent: 'asian', types: ['vietnamese_restaurant'] },
+  { id: 'pho', label: 'Pho', parent: 'vietnamese', types: ['pho_restaurant'] },
+  { id: 'filipino', label: 'Filipino', parent: 'asian', types: ['filipino_restaurant'] },
+  { id: 'indonesian', label: 'Indonesian', parent: 'asian', types: ['indonesian_restaurant'] },
+  { id: 'malaysian', label: 'Malaysian', parent: 'asian', types: ['malaysian_restaurant'] },
+  { id: 'south_asian', label: 'South Asian', parent: 'asian', types: ['south_asian_restaurant'] },
+  { id: 'indian', label: 'Indian', parent: 'south_asian', types: ['indian_restaurant', 'north_indian_restaurant', 'south_indian_restaurant'] },
+  { id: 'pakistani', label: 'Pakistani', parent: 'south_asian', types: ['pakistani_restaurant'] },
+  { id: 'sri_lankan', label: 'Sri Lankan', parent: 'south_asian', types: ['sri_lankan_restaurant'] },
+
+  // European
+  { id: 'european', label: 'European', types: ['european_restaurant'] },
+  { id: 'italian', label: 'Italian', parent: 'european', types: ['italian_restaurant'] },
+  { id: 'pizza', label: 'Pizza', parent: 'italian', types: ['pizza_restaurant', 'pizza_delivery'] },
+  { id: 'french', label: 'French', parent: 'european', types: ['french_restaurant', 'bistro'] },
+  { id: 'spanish', label: 'Spanish', parent: 'european', types: ['spanish_restaurant'] },
+  { id: 'tapas', label: 'Tapas', parent: 'spanish', types: ['tapas_restaurant'] },
+  { id: 'portuguese', label: 'Portuguese', parent: 'european', types: ['portuguese_restaurant'] },
+  { id: 'german', label: 'German', parent: 'european', types: ['german_restaurant'] },
+  { id: 'british', label: 'British', parent: 'european', types: ['british_restaurant'], aliases: ['fish_and_chips'] },
+  { id: 'eastern_european', label: 'Eastern European', parent: 'european', types: ['eastern_european_restaurant'] },
+  { id: 'polish', label: 'Polish', parent: 'eastern_european', types: ['polish_restaurant'] },
+  { id: 'ukrainian', label: 'Ukrainian', parent: 'eastern_european', types: ['ukrainian_restaurant'] },
+  { id: 'mediterranean', label: 'Mediterranean', parent: 'european', types: ['mediterranean_restaurant'] },
+  { id: 'greek', label: 'Greek', parent: 'mediterranean', types: ['greek_restaurant'] },
+
+  // Middle Eastern
+  { id: 'middle_eastern', label: 'Middle Eastern', types: ['middle_eastern_restaurant'] },
+  { id: 'lebanese', label: 'Lebanese', parent: 'middle_eastern', types: ['lebanese_restaurant'] },
+  { id: 'turkish', label: 'Turkish', parent: 'middle_eastern', types: ['turkish_restaurant'] },
+  { id: 'persian', label: 'Persian', parent: 'middle_eastern', types: ['persian_restaurant'], aliases: ['iranian'] },
+  { id: 'afghan', label: 'Afghan', parent: 'middle_eastern', types: ['afghani_restaurant'], aliases: ['afghani'] },
+  { id: 'israeli', label: 'Israeli', parent: 'middle_eastern', types: ['israeli_restaurant'] },
+  { id: 'shawarma', label: 'Shawarma', parent: 'middle_eastern', types: ['shawarma_restaurant'], aliases: ['kebab'] },
+  { id: 'falafel', label: 'Falafel', parent: 'middle_eastern', types: ['falafel_restaurant'] },
+
+  // African
+  { id: 'african', label: 'African', types: ['african_restaurant'] },
+  { id: 'ethiopian', label: 'Ethiopian', parent: 'african', types: ['ethiopian_restaurant'] },
+  { id: 'moroccan', label: 'Moroccan', parent: 'african', types: ['moroccan_restaurant'] },
+
+  // Latin American and Caribbean
+  { id: 'latin_american', label: 'Latin American', types: ['latin_american_restaurant', 'south_american_restaurant'] },
+  { id: 'mexican', label: 'Mexican', parent: 'latin_american', types: ['mexican_restaurant'] },
+  { id: 'tacos', label: 'Tacos', parent: 'mexican', types: ['taco_restaurant'], aliases: ['taco'] },
+  { id: 'burritos', label: 'Burritos', parent: 'mexican', types: ['burrito_restaurant'], aliases: ['burrito'] },
+  { id: 'tex_mex', label: 'Tex-Mex', parent: 'mexican', types: ['tex_mex_restaurant'] },
+  { id: 'brazilian', label: 'Brazilian', parent: 'latin_american', types: ['brazilian_restaurant'] },
+  { id: 'peruvian', label: 'Peruvian', parent: 'latin_american', types: ['peruvian_restaurant'] },
+  { id: 'argentinian', label: 'Argentinian', parent: 'latin_american', types: ['argentinian_restaurant'] },
+  { id: 'caribbean', label: 'Caribbean', parent: 'latin_american', types: ['caribbean_restaurant'] },
+  { id: 'cuban', label: 'Cuban', parent: 'caribbean', types: ['cuban_restaurant'] },
+
+  // North American
+  { id: 'north_american', label: 'North American', aliases: ['regional'] },
+  { id: 'american', label: 'American', parent: 'north_american', types: ['american_restaurant', 'diner'], aliases: ['diner'] },
+  { id: 'burgers', label: 'Burgers', parent: 'american', types: ['hamburger_restaurant'], aliases: ['burger'] },
+  { id: 'barbecue', label: 'Barbecue', parent: 'american', types: ['barbecue_restaurant'], aliases: ['bbq'] },
+  { id: 'steakhouse', label: 'Steakhouse', parent: 'american', types: ['steak_house'], aliases: ['steak_house'] },
+  { id: 'soul_food', label: 'Soul Food', parent: 'american', types: ['soul_food_restaurant'] },
+  { id: 'hawaiian', label: 'Hawaiian', parent: 'american', types: ['hawaiian_restaurant'], aliases: ['poke'] },
+  { id: 'canadian', label: 'Canadian', parent: 'north_american', types: ['canadian_restaurant'], aliases: ['poutine'] },
+
+  // Dishes and dietary styles that cut across regions
+  { id: 'seafood', label: 'Seafood', types: ['seafood_restaurant', 'oyster_bar_restaurant'], aliases: ['fish'] },
+  { id: 'vegetarian', label: 'Vegetarian', types: ['vegetarian_restaurant'] },
+  { id: 'vegan', label: 'Vegan', parent: 'vegetarian', types: ['vegan_restaurant'] },
+  { id: 'breakfast', label: 'Breakfast & Brunch', types: ['breakfast_restaurant'] },
+  { id: 'brunch', label: 'Brunch', parent: 'breakfast', types: ['brunch_restaurant'] },
+  { id: 'fast_food', label: 'Fast Food', types: ['fast_food_restaurant', 'food_court'], aliases: ['food_court'] },
+  { id: 'sandwiches', label: 'Sandwiches', parent: 'fast_food', types: ['sandwich_shop', 'deli'], aliases: ['sandwich', 'deli'] },
+  { id: 'chicken', label: 'Chicken', parent: 'fast_food', types: ['chicken_restaurant', 'chicken_wings_restaurant'], aliases: ['wings'] },
+  { id: 'fine_dining', label: 'Fine Dining', types: ['fine_dining_restaurant'] },
+  { id: 'buffet', label: 'Buffet', types: ['buffet_restaurant'] },
+
+  // Cafés, bakeries and sweets
+  { id: 'cafe', label: 'Cafe', types: ['cafe', 'cafeteria', 'cat_cafe', 'dog_cafe'] },
+  { id: 'coffee', label: 'Coffee', parent: 'cafe', types: ['coffee_shop'], aliases: ['coffee_shop'] },
+  { id: 'tea', label: 'Tea', parent: 'cafe', types: ['tea_house'], aliases: ['tea_house'] },
+  { id: 'juice', label: 'Juice & Smoothies', parent: 'cafe', types: ['juice_shop', 'acai_shop'] },
+  { id: 'bakery', label: 'Bakery', types: ['bakery'] },
+  { id: 'bagels', label: 'Bagels', parent: 'bakery', types: ['bagel_shop'], aliases: ['bagel'] },
+  { id: 'donuts', label: 'Donuts', parent: 'bakery', types: ['donut_shop'], aliases: ['donut'] },
+  { id: 'desserts', label: 'Desserts', types: ['dessert_restaurant', 'dessert_shop', 'confectionery', 'candy_store'] },
+  { id: 'ice_cream', label: 'Ice Cream', parent: 'desserts', types: ['ice_cream_shop'], aliases: ['gelato'] },
+  { id: 'chocolate', label: 'Chocolate', parent: 'desserts', types: ['chocolate_shop', 'chocolate_factory'] },
+
+  // Bars
+  { id: 'bar', label: 'Bar', types: ['bar', 'cocktail_bar', 'lounge_bar'] },
+  { id: 'pub', label: 'Pub', parent: 'bar', types: ['pub', 'irish_pub', 'gastropub'] },
+  { id: 'wine_bar', label: 'Wine Bar', parent: 'bar', types: ['wine_bar'] },
+  { id: 'bar_and_grill', label: 'Bar & Grill', parent: 'bar', types: ['bar_and_grill', 'sports_bar'] },
+];
+
+const DEFAULT_LABEL = 'Restaurant';
+
+const byId = new Map(CUISINES.map((cuisine) => [cuisine.id, cuisine]));
+
+const byType = new Map<string, string>();
+const byName = new Map<string, string>();
+CUISINES.forEach((cuisine) => {
+  cuisine.types?.forEach((type) => byType.set(type, cuisine.id));
+  [cuisine.id, cuisine.label, ...(cuisine.aliases || [])].forEach((name) => byName.set(normalizeName(name), cuisine.id));
+});
+
+// "Middle Eastern", "middle_eastern" and "middle-eastern" all match
+function normalizeName(name: string): string {
+  return name.trim().toLowerCase().replace(/[\s-]+/g, '_');
+}
+
+export function getCuisine(id: string): CuisineNode | undefined {
+  return byId.get(id);
+}
+
+// Top-level cuisines when `parentId` is omitted
+export function getCuisineChildren(parentId?: string): CuisineNode[] {
+  return CUISINES.filter((cuisine) => cuisine.parent === parentId);
+}
+
+// Nearest first, e.g. ramen → ['japanese', 'asian']
+export function getCuisineAncestors(id: string): string[] {
+  const ancestors: string[] = [];
+  for (let node = byId.get(id); node?.parent; node = byId.get(node.parent)) {
+    ancestors.push(node.parent);
+  }
+  return ancestors;
+}
+
+function depth(id: string): number {
+  return getCuisineAncestors(id).length;
+}
+
+// Drop duplicates and anything implied by a more specific match, most
+// specific first: ['japanese', 'ramen', 'seafood'] → ['ramen', 'seafood']
+function normalizeCuisines(ids: string[]): string[] {
+  const unique = [...new Set(ids)];
+  const implied = new Set(unique.flatMap(getCuisineAncestors));
+  return unique
+    .filter((id) => !implied.has(id))
+    .sort((a, b) => depth(b) - depth(a));
+}
+
+// Cuisines from Google place types; generic types like `restaurant` are ignored
+export function cuisinesFromTypes(types: string[] = []): string[] {
+  return normalizeCuisines(types.map((type) => byType.get(type)).filter(Boolean));
+}
+
+// Cuisines from free-form names: OSM `cuisine` values, fixture labels, ids
+export function cuisinesFromNames(names: string[] = []): string[] {
+  return normalizeCuisines(names.map((name) => byName.get(normalizeName(name))).filter(Boolean));
+}
+
+export function mergeCuisines(...lists: string[][]): string[] {
+  return normalizeCuisines(lists.flat());
+}
+
+// Label for the most specific cuisine, used where a single name fits
+export function getCuisineLabel(cuisines: string[] = []): string {
+  return (cuisines[0] && byId.get(cuisines[0])?.label) || DEFAULT_LABEL;
+}
+
+// Labels for badges, most specific first; never empty
+export function getCuisineLabels(cuisines: string[] = [], limit?: number): string[] {
+  const labels = cuisines.map((id) => byId.get(id)?.label).filter(Boolean).slice(0, limit);
+  return labels.length ? labels : [DEFAULT_LABEL];
+}
+
+// Does any of `cuisines` fall under `id`? Ramen matches Japanese and Asian.
+export function matchesCuisine(cuisines: string[] = [], id: string): boolean {
+  return cuisines.some((cuisine) => cuisine === id || getCuisineAncestors(cuisine).includes(id));
+}
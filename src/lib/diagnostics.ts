@@ -0,0 +1,49 @@
+// In-memory diagnostics channel for bad data that should not break the UI
+
+export interface Diagnostic {
+  id: number;
+  // Where the problem was found, e.g. `google.searchNearby`
+  source: string;
+  message: string;
+  // Dotted path of the offending field, if any
+  field?: string;
+  recordId?: string;
+  timestamp: number;
+}
+
+export type DiagnosticListener = (diagnostic: Diagnostic) => void;
+
+const MAX_DIAGNOSTICS = 100;
+
+const diagnostics: Diagnostic[] = [];
+const listeners = new Set<DiagnosticListener>();
+let nextId = 1;
+
+export function reportDiagnostic(report: Omit<Diagnostic, 'id' | 'timestamp'>): void {
+  const diagnostic: Diagnostic = { ...report, id: nextId++, timestamp: Date.now() };
+  diagnostics.push(diagnostic);
+  if (diagnostics.length > MAX_DIAGNOSTICS) {
+    diagnostics.shift();
+  }
+
+  if (import.meta.env.DEV) {
+    console.warn(`[${diagnostic.source}] ${diagnostic.field || 'record'}: ${diagnostic.message}`, diagnostic.recordId || '');
+  }
+  listeners.forEach((listener) => listener(diagnostic));
+}
+
+// Most recent diagnostics, oldest first
+export function getDiagnostics(): Diagnostic[] {
+  return [...diagnostics];
+}
+
+export function clearDiagnostics(): void {
+  diagnostics.length = 0;
+}
+
+export function subscribeDiagnostics(listener: DiagnosticListener): () => void {
+  listeners.add(listener);
+  return () => {
+    listeners.delete(listener);
+  };
+}
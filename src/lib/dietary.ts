@@ -0,0 +1,32 @@
+// Dietary options: labels, and flags implied by a restaurant's cuisines
+import { DietaryFlag } from '@/types';
+import { matchesCuisine } from '@/lib/cuisines';
+
+export const DIETARY_FLAGS: DietaryFlag[] = ['vegetarian', 'vegan', 'glutenFree', 'halal', 'kosher'];
+
+export const DIETARY_LABELS: Record<DietaryFlag, string> = {
+  vegetarian: 'Vegetarian',
+  vegan: 'Vegan',
+  glutenFree: 'Gluten-free',
+  halal: 'Halal',
+  kosher: 'Kosher',
+};
+
+export function isDietaryFlag(value: string): value is DietaryFlag {
+  return (DIETARY_FLAGS as string[]).includes(value);
+}
+
+// Vegetarian and vegan restaurants cater for their own diet; vegan food is
+// vegetarian too
+export function dietaryFromCuisines(cuisines: string[] = []): DietaryFlag[] {
+  if (matchesCuisine(cuisines, 'vegan')) {
+    return ['vegetarian', 'vegan'];
+  }
+  return matchesCuisine(cuisines, 'vegetarian') ? ['vegetarian'] : [];
+}
+
+// In DIETARY_FLAGS order, without duplicates
+export function mergeDietary(...lists: DietaryFlag[][]): DietaryFlag[] {
+  const flags = new Set(lists.flat());
+  return DIETARY_FLAGS.filter((flag) => flags.has(flag));
+}
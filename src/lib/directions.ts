@@ -0,0 +1,121 @@
+// Directions deep links for the supported map apps and the user's preferred app
+import { TravelMode, UserLocation } from '@/types';
+
+type Coordinates = Pick<UserLocation, 'lat' | 'lng'>;
+
+export type DirectionsApp = 'google' | 'apple' | 'waze' | 'osm';
+
+export const DIRECTIONS_APPS: DirectionsApp[] = ['google', 'apple', 'waze', 'osm'];
+
+export const DIRECTIONS_APP_LABELS: Record<DirectionsApp, string> = {
+  google: 'Google Maps',
+  apple: 'Apple Maps',
+  waze: 'Waze',
+  osm: 'OpenStreetMap',
+};
+
+export interface DirectionsTarget extends Coordinates {
+  // Google place id; lets Google Maps open the venue instead of a dropped pin
+  googlePlaceId?: string;
+}
+
+export interface DirectionsOptions {
+  // Leave out to start from the device's current location
+  origin?: Coordinates;
+  mode?: TravelMode;
+}
+
+const GOOGLE_TRAVEL_MODES: Record<TravelMode, string> = {
+  walk: 'walking',
+  transit: 'transit',
+  drive: 'driving',
+};
+
+const APPLE_TRAVEL_MODES: Record<TravelMode, string> = {
+  walk: 'w',
+  transit: 'r',
+  drive: 'd',
+};
+
+// openstreetmap.org has no transit router, so transit falls back to walking
+const OSM_ENGINES: Record<TravelMode, string> = {
+  walk: 'fossgis_osrm_foot',
+  transit: 'fossgis_osrm_foot',
+  drive: 'fossgis_osrm_car',
+};
+
+const DEFAULT_DIRECTIONS_APP: DirectionsApp = 'google';
+const STORAGE_KEY = 'newbuzo-directions-app';
+
+const formatCoordinates = ({ lat, lng }: Coordinates) => `${lat.toFixed(6)},${lng.toFixed(6)}`;
+
+// Waze always routes by car from the current location
+export function getDirectionsUrl(
+  app: DirectionsApp,
+  destination: DirectionsTarget,
+  { origin, mode = 'drive' }: DirectionsOptions = {}
+): string {
+  switch (app) {
+    case 'google': {
+      const url = new URL('https://www.google.com/maps/dir/');
+      url.searchParams.set('api', '1');
+      if (origin) url.searchParams.set('origin', formatCoordinates(origin));
+      url.searchParams.set('destination', formatCoordinates(destination));
+      if (destination.googlePlaceId) url.searchParams.set('destination_place_id', destination.googlePlaceId);
+      url.searchParams.set('travelmode', GOOGLE_TRAVEL_MODES[mode]);
+      return url.toString();
+    }
+    case 'apple': {
+      const url = new URL('https://maps.apple.com/');
+      if (origin) url.searchParams.set('saddr', formatCoordinates(origin));
+      url.searchParams.set('daddr', formatCoordinates(destination));
+      url.searchParams.set('dirflg', APPLE_TRAVEL_MODES[mode]);
+      return url.toString();
+    }
+    case 'waze': {
+      const url = new URL('https://waze.com/ul');
+      url.searchParams.set('ll', formatCoordinates(destination));
+      url.searchParams.set('navigate', 'yes');
+      return url.toString();
+    }
+    case 'osm': {
+      const url = new URL('https://www.openstreetmap.org/directions');
+      url.searchParams.set('engine', OSM_ENGINES[mode]);
+      url.searchParams.set('route', `${origin ? formatCoordinates(origin) : ''};${formatCoordinates(destination)}`);
+      return url.toString();
+    }
+  }
+}
+
+function loadPreferredDirectionsApp(): DirectionsApp {
+  try {
+    const stored = localStorage.getItem(STORAGE_KEY) as DirectionsApp | null;
+    return stored && DIRECTIONS_APPS.includes(stored) ? stored : DEFAULT_DIRECTIONS_APP;
+  } catch {
+    return DEFAULT_DIRECTIONS_APP;
+  }
+}
+
+let preferredApp = loadPreferredDirectionsApp();
+const listeners = new Set<(app: DirectionsApp) => void>();
+
+export function getPreferredDirectionsApp(): DirectionsApp {
+  return preferredApp;
+}
+
+export function setPreferredDirectionsApp(app: DirectionsApp): void {
+  preferredApp = app;
+  try {
+    localStorage.setItem(STORAGE_KEY, app);
+  } catch {
+    // Still applies for this session
+  }
+  listeners.forEach((listener) => listener(app));
+}
+
+export function subscribeDirectionsApp(listener: (app: DirectionsApp) => void): () => void {
+  listeners.add(listener);
+  return () => {
+    listeners.delete(listener);
+  };
+}
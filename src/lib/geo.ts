@@ -0,0 +1,33 @@
+// Great-circle math on the sphere: distances, bearings and angle helpers
+const EARTH_RADIUS_KM = 6371;
+
+export const toRadians = (degrees: number) => degrees * (Math.PI / 180);
+export const toDegrees = (radians: number) => radians * (180 / Math.PI);
+
+// Into [0, 360)
+export function normalizeDegrees(degrees: number): number {
+  return ((degrees % 360) + 360) % 360;
+}
+
+// Calculate distance between two coordinates (Haversine formula), in kilometers
+export function calculateDistance(lat1: number, lng1: number, lat2: number, lng2: number): number {
+  const dLat = toRadians(lat2 - lat1);
+  const dLng = toRadians(lng2 - lng1);
+  const a =
+    Math.sin(dLat / 2) * Math.sin(dLat / 2) +
+    Math.cos(toRadians(lat1)) * Math.cos(toRadians(lat2)) *
+    Math.sin(dLng / 2) * Math.sin(dLng / 2);
+  const c = 2 * Math.atan2(Math.sqrt(a), Math.sqrt(1 - a));
+  return EARTH_RADIUS_KM * c;
+}
+
+// Initial bearing from the first point towards the second, in degrees
+// clockwise from true north
+export function calculateBearing(lat1: number, lng1: number, lat2: number, lng2: number): number {
+  const fromLat = toRadians(lat1);
+  const toLat = toRadians(lat2);
+  const dLng = toRadians(lng2 - lng1);
+  const y = Math.sin(dLng) * Math.cos(toLat);
+  const x = Math.cos(fromLat) * Math.sin(toLat) - Math.sin(fromLat) * Math.cos(toLat) * Math.cos(dLng);
+  return normalizeDegrees(toDegrees(Math.atan2(y, x)));
+}
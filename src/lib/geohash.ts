@@ -0,0 +1,44 @@
+// Geohash encoding for grouping nearby coordinates into cache cells
+const BASE32 = '0123456789bcdefghjkmnpqrstuvwxyz';
+
+// Approximate cell width in meters for each precision at mid latitudes
+const CELL_WIDTH_METERS = [5000000, 1250000, 156000, 39100, 4890, 1220, 153, 38.2, 4.77];
+
+export function encodeGeohash(lat: number, lng: number, precision: number = 7): string {
+  let latRange: [number, number] = [-90, 90];
+  let lngRange: [number, number] = [-180, 180];
+  let hash = '';
+  let bit = 0;
+  let ch = 0;
+  let evenBit = true;
+
+  while (hash.length < precision) {
+    const range = evenBit ? lngRange : latRange;
+    const value = evenBit ? lng : lat;
+    const mid = (range[0] + range[1]) / 2;
+    if (value >= mid) {
+      ch = (ch << 1) | 1;
+      range[0] = mid;
+    } else {
+      ch = ch << 1;
+      range[1] = mid;
+    }
+    if (evenBit) lngRange = range; else latRange = range;
+    evenBit = !evenBit;
+
+    if (++bit === 5) {
+      hash += BASE32[ch];
+      bit = 0;
+      ch = 0;
+    }
+  }
+
+  return hash;
+}
+
+// Coarsest precision whose cells are at most a quarter of the search radius,
+// so everyone in the same cell can share one nearby search
+export function geohashPrecisionForRadius(radiusMeters: number): number {
+  const index = CELL_WIDTH_METERS.findIndex((width) => width <= radiusMeters / 4);
+  return index === -1 ? CELL_WIDTH_METERS.length : index + 1;
+}
@@ -1,5 +1,35 @@
 // Google Maps API service layer
-import { Restaurant, RestaurantDetails, UserLocation } from '@/types';
+import {
+  BusinessStatus,
+  LocationSearchResult,
+  OpeningHours,
+  PhotoAttribution,
+  PlacePrediction,
+  PriceRange,
+  Restaurant,
+  RestaurantDetails,
+  TravelDestination,
+  TravelMode,
+  TravelTime,
+  UserLocation,
+  Viewport,
+} from '@/types';
+import type { AutocompleteOptions, PlacesProvider } from '@/lib/placesProvider';
+import { isAbortError, throwIfAborted, withAbort } from '@/lib/abort';
+import { restaurantDetailsSchema, restaurantSchema, validatePlaceRecord, validatePlaceRecords } from '@/lib/placeSchemas';
+import { fromPlacesStatus, PlacesError, toPlacesError } from '@/lib/placesErrors';
+import { reportDiagnostic } from '@/lib/diagnostics';
+import { isOverBudget, meterRequest, meterUrl } from '@/lib/usageMeter';
+import { isOpenAt } from '@/lib/openingHours';
+import { cuisinesFromTypes, getCuisineLabel } from '@/lib/cuisines';
+import { dietaryFromCuisines } from '@/lib/dietary';
+import { estimateTravelTime, estimateTravelTimes } from '@/lib/travelTime';
+import { normalizeAttributionUri, parseHtmlAttributions } from '@/lib/attribution';
+import { calculateDistance } from '@/lib/geo';
+import { resizeImageUrl } from '@/lib/responsiveImage';
+import type { MapsApi, StaticMapMarker } from '@/lib/mapView';
+
+export type { LocationSearchResult } from '@/types';
 
 // Environment variables
 const GOOGLE_MAPS_API_KEY = import.meta.env.VITE_GOOGLE_MAPS_API_KEY;
@@ -19,7 +49,7 @@ interface GoogleMapsWindow extends Window {
       LatLng: unknown;
       Geocoder: unknown;
       places: {
-        Place: unknown;
+        Place?: PlacesApiPlaceClass;
         PlacesService: unknown;
         PlacesServiceStatus: {
           OK: string;
@@ -27,15 +57,21 @@ interface GoogleMapsWindow extends Window {
         };
         SearchNearbyRequest: unknown;
         SearchByTextRequest: unknown;
+        AutocompleteSuggestion?: PlacesApiAutocompleteSuggestionClass;
+        AutocompleteSessionToken: GoogleAutocompleteSessionTokenClass;
+        AutocompleteService: GoogleAutocompleteServiceClass;
       };
       GeocoderStatus: {
         OK: string;
         ZERO_RESULTS: string;
       };
+      DistanceMatrixService?: GoogleDistanceMatrixServiceClass;
     };
   };
   googleMapsLoaded: boolean;
   initGoogleMaps: () => void;
+  // Called by the Maps JS API when the key is rejected
+  gm_authFailure?: () => void;
 }
 
 declare const window: GoogleMapsWindow;
@@ -51,6 +87,7 @@ interface GooglePlaceResult {
       lat(): number;
       lng(): number;
     };
+    viewport?: PlacesApiLatLngBounds;
   };
   rating?: number;
   price_level?: number;
@@ -59,19 +96,182 @@ interface GooglePlaceResult {
     photo_reference: string;
     height: number;
     width: number;
+    html_attributions?: string[];
   }>;
   opening_hours?: {
     open_now: boolean;
     weekday_text?: string[];
+    periods?: Array<{ open: GoogleOpeningTime; close?: GoogleOpeningTime }>;
   };
+  utc_offset_minutes?: number;
   formatted_phone_number?: string;
   website?: string;
+  user_ratings_total?: number;
+  business_status?: BusinessStatus;
+}
+
+// Legacy `PlaceOpeningHoursTime`
+interface GoogleOpeningTime {
+  day: number;
+  hours: number;
+  minutes: number;
+}
+
+// Legacy `AutocompleteService` prediction
+interface GoogleAutocompletePrediction {
+  place_id: string;
+  description: string;
+  types?: string[];
+  structured_formatting: {
+    main_text: string;
+    main_text_matched_substrings?: Array<{ offset: number; length: number }>;
+    secondary_text?: string;
+  };
+}
+
+interface GoogleAutocompleteServiceClass {
+  new (): {
+    getPlacePredictions(
+      request: object,
+      callback: (predictions: GoogleAutocompletePrediction[] | null, status: string) => void
+    ): void;
+  };
+}
+
+// Opaque; only handed back to the requests of the same session
+interface GoogleAutocompleteSessionTokenClass {
+  new (): object;
+}
+
+interface GoogleDistanceMatrixResponse {
+  rows: Array<{
+    elements: Array<{
+      status: string;
+      duration?: { value: number };
+      distance?: { value: number };
+    }>;
+  }>;
+}
+
+interface GoogleDistanceMatrixServiceClass {
+  new (): {
+    getDistanceMatrix(
+      request: object,
+      callback: (response: GoogleDistanceMatrixResponse | null, status: string) => void
+    ): void;
+  };
 }
 
 interface GoogleGeocoderResult {
   formatted_address: string;
 }
 
+// Documented getters of the Places API (New) `google.maps.places.Place` class.
+// Adapters only read these; the minified internals change between releases.
+interface PlacesApiLatLng {
+  lat(): number;
+  lng(): number;
+}
+
+interface PlacesApiLatLngBounds {
+  getNorthEast(): PlacesApiLatLng;
+  getSouthWest(): PlacesApiLatLng;
+}
+
+interface PlacesApiAuthorAttribution {
+  displayName: string;
+  photoURI: string | null;
+  uri: string | null;
+}
+
+interface PlacesApiPhoto {
+  authorAttributions: PlacesApiAuthorAttribution[];
+  widthPx: number;
+  heightPx: number;
+  getURI(options?: { maxWidth?: number; maxHeight?: number }): string;
+}
+
+interface PlacesApiOpeningHoursPoint {
+  day: number;
+  hour: number;
+  minute: number;
+}
+
+interface PlacesApiOpeningHours {
+  weekdayDescriptions: string[];
+  periods: Array<{ open: PlacesApiOpeningHoursPoint; close: PlacesApiOpeningHoursPoint | null }>;
+}
+
+interface PlacesApiMoney {
+  currencyCode: string;
+  units: number;
+  nanos: number;
+}
+
+interface PlacesApiPriceRange {
+  startPrice: PlacesApiMoney | null;
+  endPrice: PlacesApiMoney | null;
+}
+
+type PlacesApiPriceLevel = 'FREE' | 'INEXPENSIVE' | 'MODERATE' | 'EXPENSIVE' | 'VERY_EXPENSIVE';
+
+interface PlacesApiPlace {
+  id: string;
+  displayName?: string | null;
+  formattedAddress?: string | null;
+  location?: PlacesApiLatLng | null;
+  viewport?: PlacesApiLatLngBounds | null;
+  rating?: number | null;
+  priceLevel?: PlacesApiPriceLevel | null;
+  types?: string[];
+  photos?: PlacesApiPhoto[];
+  nationalPhoneNumber?: string | null;
+  websiteURI?: string | null;
+  regularOpeningHours?: PlacesApiOpeningHours | null;
+  utcOffsetMinutes?: number | null;
+  userRatingCount?: number | null;
+  editorialSummary?: string | null;
+  priceRange?: PlacesApiPriceRange | null;
+  businessStatus?: BusinessStatus | null;
+  hasDineIn?: boolean | null;
+  hasTakeout?: boolean | null;
+  hasDelivery?: boolean | null;
+  isReservable?: boolean | null;
+  servesVegetarianFood?: boolean | null;
+  servesBeer?: boolean | null;
+  servesWine?: boolean | null;
+  servesCocktails?: boolean | null;
+  hasOutdoorSeating?: boolean | null;
+  accessibilityOptions?: { hasWheelchairAccessibleEntrance: boolean | null } | null;
+  fetchFields(options: { fields: string[] }): Promise<{ place: PlacesApiPlace }>;
+}
+
+interface PlacesApiFormattableText {
+  text: string;
+  matches: Array<{ startOffset: number; endOffset: number }>;
+}
+
+interface PlacesApiPlacePrediction {
+  placeId: string;
+  text: PlacesApiFormattableText;
+  mainText: PlacesApiFormattableText | null;
+  secondaryText: PlacesApiFormattableText | null;
+  types: string[];
+  toPlace(): PlacesApiPlace;
+}
+
+interface PlacesApiAutocompleteSuggestionClass {
+  fetchAutocompleteSuggestions(request: object): Promise<{
+    suggestions: Array<{ placePrediction: PlacesApiPlacePrediction | null }>;
+  }>;
+}
+
+interface PlacesApiPlaceClass {
+  new (options: { id: string }): PlacesApiPlace;
+  searchNearby?(request: object): Promise<{ places: PlacesApiPlace[] }>;
+  searchByText?(request: object): Promise<{ places: PlacesApiPlace[] }>;
+}
+
 // Load Google Maps API script dynamically
 function loadGoogleMapsScript(): Promise<void> {
   return new Promise((resolve, reject) => {
@@ -81,7 +281,7 @@ function loadGoogleMapsScript(): Promise<void> {
     }
 
     if (!GOOGLE_MAPS_API_KEY) {
-      reject(new Error('Google Maps API key is required'));
+      reject(new PlacesError('INVALID_KEY', 'Google Maps API key is required'));
       return;
     }
 
@@ -95,13 +295,18 @@ function loadGoogleMapsScript(): Promise<void> {
     script.src = `https://maps.googleapis.com/maps/api/js?key=${GOOGLE_MAPS_API_KEY}&libraries=places&loading=async&callback=initGoogleMaps`;
     script.async = true;
     script.defer = true;
-    script.onerror = () => reject(new Error('Failed to load Google Maps API'));
+    script.onerror = () => reject(new PlacesError('NETWORK', 'Failed to load Google Maps API'));
+    window.gm_authFailure = () => {
+      authFailed = true;
+    };
     
     window.addEventListener('google-maps-loaded', () => resolve());
     document.head.appendChild(script);
   });
 }
 
+let authFailed = false;
+
 // Wait for Google Maps API to load
 export function waitForGoogleMaps(): Promise<void> {
   return new Promise((resolve) => {
@@ -122,8 +327,11 @@ let placesService: any;
 async function initializeGoogleMapsService(): Promise<void> {
   await waitForGoogleMaps();
   
+  if (!GOOGLE_MAPS_API_KEY || authFailed) {
+    throw new PlacesError('INVALID_KEY', 'Google Maps API key is missing or invalid');
+  }
   if (!window.google || !window.googleMapsLoaded) {
-    throw new Error('Google Maps API failed to load');
+    throw new PlacesError('NETWORK', 'Google Maps API failed to load');
   }
   
   if (!mapInstance) {
@@ -143,6 +351,13 @@ async function initializeGoogleMapsService(): Promise<void> {
   }
 }
 
+// Maps JS API for interactive maps. Fails like the places lookups when the
+// API can't load.
+export async function loadMapsApi(): Promise<MapsApi> {
+  await initializeGoogleMapsService();
+  return window.google.maps as unknown as MapsApi;
+}
+
 // Types for Google Places API responses
 interface GooglePlace {
   place_id: string;
@@ -193,123 +408,287 @@ interface GooglePlaceDetails {
   price_level?: number;
 }
 
-// Calculate distance between two coordinates (Haversine formula)
-function calculateDistance(lat1: number, lng1: number, lat2: number, lng2: number): number {
-  const R = 6371; // Earth's radius in kilometers
-  const dLat = (lat2 - lat1) * (Math.PI / 180);
-  const dLng = (lng2 - lng1) * (Math.PI / 180);
-  const a = 
-    Math.sin(dLat / 2) * Math.sin(dLat / 2) +
-    Math.cos(lat1 * (Math.PI / 180)) * Math.cos(lat2 * (Math.PI / 180)) *
-    Math.sin(dLng / 2) * Math.sin(dLng / 2);
-  const c = 2 * Math.atan2(Math.sqrt(a), Math.sqrt(1 - a));
-  return R * c;
-}
-
-// Map Google cuisine types to our app's cuisine categories
-function mapCuisineType(types: string[]): string {
-  const cuisineMap: Record<string, string> = {
-    restaurant: 'Restaurant',
-    food: 'Food',
-    meal_takeaway: 'Takeaway',
-    meal_delivery: 'Delivery',
-    cafe: 'Cafe',
-    bar: 'Bar',
-    bakery: 'Bakery',
-    // Specific cuisines
-    chinese_restaurant: 'Chinese',
-    japanese_restaurant: 'Japanese',
-    thai_restaurant: 'Thai',
-    italian_restaurant: 'Italian',
-    mexican_restaurant: 'Mexican',
-    indian_restaurant: 'Indian',
-    french_restaurant: 'French',
-    american_restaurant: 'American',
-    steakhouse: 'Steakhouse',
+const PRICE_LEVELS: Record<PlacesApiPriceLevel, number> = {
+  FREE: 0,
+  INEXPENSIVE: 1,
+  MODERATE: 2,
+  EXPENSIVE: 3,
+  VERY_EXPENSIVE: 4,
+};
+
+const DEFAULT_PRICE_LEVEL = 2;
+
+// Fields requested from the Places API (New); the adapters read nothing else.
+// List results include hours so cards can show open/closed status.
+const PLACE_LIST_FIELDS = [
+  'id',
+  'displayName',
+  'formattedAddress',
+  'location',
+  'rating',
+  'userRatingCount',
+  'priceLevel',
+  'types',
+  'photos',
+  'regularOpeningHours',
+  'utcOffsetMinutes',
+];
+const PLACE_DETAILS_FIELDS = [
+  ...PLACE_LIST_FIELDS,
+  'nationalPhoneNumber',
+  'websiteURI',
+  'editorialSummary',
+  'priceRange',
+  'businessStatus',
+  'hasDineIn',
+  'hasTakeout',
+  'hasDelivery',
+  'isReservable',
+  'servesVegetarianFood',
+  'servesBeer',
+  'servesWine',
+  'servesCocktails',
+  'hasOutdoorSeating',
+  'accessibilityOptions',
+];
+
+function adaptAuthorAttributions(attributions: PlacesApiAuthorAttribution[] = []): PhotoAttribution[] {
+  return attributions.map((attribution) => ({
+    displayName: attribution.displayName,
+    uri: normalizeAttributionUri(attribution.uri),
+    photoUri: normalizeAttributionUri(attribution.photoURI),
+  }));
+}
+
+function adaptLegacyPhotos(photos: GooglePlaceResult['photos']): RestaurantDetails['photos'] {
+  return photos?.map((photo) => ({
+    photo_reference: photo.photo_reference,
+    width: photo.width,
+    height: photo.height,
+    attributions: parseHtmlAttributions(photo.html_attributions),
+  }));
+}
+
+// The new API has no photo reference getter, so the photo media URL stands in
+// for it; `getPlacePhotoUrl` resizes it on demand
+function adaptPlacePhotos(photos: PlacesApiPhoto[] = []): NonNullable<RestaurantDetails['photos']> {
+  return photos.map((photo) => ({
+    photo_reference: photo.getURI({ maxWidth: 800, maxHeight: 600 }),
+    width: photo.widthPx,
+    height: photo.heightPx,
+    attributions: adaptAuthorAttributions(photo.authorAttributions),
+  }));
+}
+
+function adaptOpeningHours(place: PlacesApiPlace): OpeningHours | undefined {
+  const periods = place.regularOpeningHours?.periods;
+  if (!periods) {
+    return undefined;
+  }
+  return {
+    periods: periods.map(({ open, close }) => ({
+      open: { day: open.day, hour: open.hour, minute: open.minute },
+      close: close ? { day: close.day, hour: close.hour, minute: close.minute } : undefined,
+    })),
+    utcOffsetMinutes: place.utcOffsetMinutes ?? undefined,
   };
+}
 
-  for (const type of types) {
-    if (cuisineMap[type]) {
-      return cuisineMap[type];
-    }
+function adaptLegacyOpeningHours(place: GooglePlaceResult): OpeningHours | undefined {
+  const periods = place.opening_hours?.periods;
+  if (!periods) {
+    return undefined;
+  }
+  const toTime = (time: GoogleOpeningTime) => ({ day: time.day, hour: time.hours, minute: time.minutes });
+  return {
+    periods: periods.map(({ open, close }) => ({ open: toTime(open), close: close ? toTime(close) : undefined })),
+    utcOffsetMinutes: place.utc_offset_minutes,
+  };
+}
+
+// Map a Place (New) search result; returns null (and reports why) if invalid
+function adaptPlaceToRestaurant(place: PlacesApiPlace, source: string, origin?: UserLocation): Restaurant | null {
+  const lat = place.location?.lat();
+  const lng = place.location?.lng();
+  const photos = adaptPlacePhotos(place.photos);
+  const cuisines = cuisinesFromTypes(place.types);
+
+  return validatePlaceRecord(restaurantSchema, {
+    id: place.id,
+    name: place.displayName,
+    rating: place.rating ?? 0,
+    userRatingCount: place.userRatingCount ?? undefined,
+    address: place.formattedAddress ?? '',
+    coordinates: { lat, lng },
+    cuisine: getCuisineLabel(cuisines),
+    cuisines,
+    priceLevel: place.priceLevel ? PRICE_LEVELS[place.priceLevel] : DEFAULT_PRICE_LEVEL,
+    ...getBestRestaurantPhoto(photos),
+    distance: origin && lat !== undefined && lng !== undefined
+      ? calculateDistance(origin.lat, origin.lng, lat, lng)
+      : 0,
+    openingHours: adaptOpeningHours(place),
+    dietary: dietaryFromCuisines(cuisines),
+  }, source);
+}
+
+function adaptPriceRange(priceRange: PlacesApiPriceRange | null | undefined): PriceRange | undefined {
+  const currency = priceRange?.startPrice?.currencyCode || priceRange?.endPrice?.currencyCode;
+  if (!currency) {
+    return undefined;
+  }
+  return {
+    currency,
+    start: priceRange.startPrice?.units ?? undefined,
+    end: priceRange.endPrice?.units ?? undefined,
+  };
+}
+
+// Any of beer, wine or cocktails; unknown only if all three are
+function adaptServesAlcohol(place: PlacesApiPlace): boolean | undefined {
+  const flags = [place.servesBeer, place.servesWine, place.servesCocktails].filter((flag) => typeof flag === 'boolean');
+  return flags.length ? flags.some(Boolean) : undefined;
+}
+
+// Map a Place (New) after `fetchFields`; returns null (and reports why) if invalid
+function adaptPlaceToDetails(place: PlacesApiPlace): RestaurantDetails | null {
+  const openingHours = adaptOpeningHours(place);
+
+  return validatePlaceRecord(restaurantDetailsSchema, {
+    place_id: place.id,
+    name: place.displayName,
+    formatted_address: place.formattedAddress ?? '',
+    formatted_phone_number: place.nationalPhoneNumber ?? undefined,
+    website: place.websiteURI ?? undefined,
+    rating: place.rating ?? 0,
+    photos: adaptPlacePhotos(place.photos),
+    opening_hours: place.regularOpeningHours
+      ? {
+        weekday_text: place.regularOpeningHours.weekdayDescriptions,
+        open_now: isOpenAt(openingHours, new Date()) ?? false,
+        periods: openingHours?.periods,
+      }
+      : undefined,
+    utc_offset_minutes: place.utcOffsetMinutes ?? undefined,
+    user_ratings_total: place.userRatingCount ?? undefined,
+    editorial_summary: place.editorialSummary ?? undefined,
+    price_range: adaptPriceRange(place.priceRange),
+    business_status: place.businessStatus ?? undefined,
+    dine_in: place.hasDineIn ?? undefined,
+    takeout: place.hasTakeout ?? undefined,
+    delivery: place.hasDelivery ?? undefined,
+    reservable: place.isReservable ?? undefined,
+    serves_vegetarian_food: place.servesVegetarianFood ?? undefined,
+    serves_alcohol: adaptServesAlcohol(place),
+    outdoor_seating: place.hasOutdoorSeating ?? undefined,
+    wheelchair_accessible_entrance: place.accessibilityOptions?.hasWheelchairAccessibleEntrance ?? undefined,
+    geometry: {
+      location: { lat: place.location?.lat(), lng: place.location?.lng() },
+    },
+  }, 'google.fetchFields');
+}
+
+function adaptPlacePrediction(prediction: PlacesApiPlacePrediction): PlacePrediction {
+  const mainText = prediction.mainText || prediction.text;
+  return {
+    place_id: prediction.placeId,
+    description: prediction.text.text,
+    main_text: mainText.text,
+    main_text_matches: mainText.matches.map((match) => ({
+      offset: match.startOffset,
+      length: match.endOffset - match.startOffset,
+    })),
+    secondary_text: prediction.secondaryText?.text,
+    types: prediction.types || [],
+  };
+}
+
+function adaptLegacyPrediction(prediction: GoogleAutocompletePrediction): PlacePrediction {
+  const { main_text, main_text_matched_substrings, secondary_text } = prediction.structured_formatting;
+  return {
+    place_id: prediction.place_id,
+    description: prediction.description,
+    main_text,
+    main_text_matches: main_text_matched_substrings || [],
+    secondary_text,
+    types: prediction.types || [],
+  };
+}
+
+function adaptViewport(bounds: PlacesApiLatLngBounds | null | undefined): Viewport | undefined {
+  if (!bounds) {
+    return undefined;
   }
-  return 'Restaurant';
+  const northeast = bounds.getNorthEast();
+  const southwest = bounds.getSouthWest();
+  return {
+    northeast: { lat: northeast.lat(), lng: northeast.lng() },
+    southwest: { lat: southwest.lat(), lng: southwest.lng() },
+  };
+}
+
+function adaptPlaceToLocation(place: PlacesApiPlace): LocationSearchResult | null {
+  if (!place.location) {
+    return null;
+  }
+  return {
+    place_id: place.id,
+    name: place.displayName || place.formattedAddress || '',
+    formatted_address: place.formattedAddress || '',
+    location: { lat: place.location.lat(), lng: place.location.lng() },
+    types: place.types || [],
+    viewport: adaptViewport(place.viewport),
+  };
+}
+
+// The new Place API failed: rethrow if the legacy service would fail the same
+// way, otherwise record the fallback
+function fallBackToLegacy(error: unknown, source: string): void {
+  const placesError = toPlacesError(error);
+  if (placesError.code === 'INVALID_KEY' || placesError.code === 'BUDGET_EXCEEDED') {
+    throw placesError;
+  }
+  reportDiagnostic({ source, message: `Falling back to legacy PlacesService: ${placesError.message}` });
 }
 
 // Search for nearby restaurants using Google Places API
 export async function searchNearbyRestaurants(
   location: UserLocation,
   radius: number = 2000, // 2km radius
-  type: string = 'restaurant'
+  type: string = 'restaurant',
+  signal?: AbortSignal
 ): Promise<Restaurant[]> {
-  await initializeGoogleMapsService();
+  throwIfAborted(signal);
+  await withAbort(initializeGoogleMapsService(), signal);
 
   // Try new Place API first (if available)
   try {
-    // eslint-disable-next-line @typescript-eslint/no-explicit-any
-    if (window.google.maps.places.Place && (window.google.maps.places.Place as any).searchNearby) {
+    const Place = window.google.maps.places.Place;
+    if (Place?.searchNearby) {
       const request = {
-        // Only use valid fields for the new Place API
-        fields: ['id', 'displayName', 'formattedAddress', 'location', 'rating', 'priceLevel', 'types', 'photos'],
+        fields: PLACE_LIST_FIELDS,
         locationRestriction: {
           center: { lat: location.lat, lng: location.lng },
           radius: radius,
         },
-        includedTypes: ['restaurant'],
+        // Same type as the legacy request below, so both return the same places
+        includedTypes: [type],
         maxResultCount: 20,
       };
 
-      // eslint-disable-next-line @typescript-eslint/no-explicit-any
-      const response = await (window.google.maps.places.Place as any).searchNearby(request);
-      const places = response.places || [];
-      
-      // eslint-disable-next-line @typescript-eslint/no-explicit-any
-      const restaurants = places.map((place: any): Restaurant => {
-        // Log the raw place object for debugging
-        console.log('Place object:', place);
-        console.log('Place.Dg:', place.Dg);
-        console.log('Place.Mg:', place.Mg);
-        // Robustly extract the name
-        let restaurantName = '';
-        if (place.Dg && typeof place.Dg.displayName === 'string' && place.Dg.displayName.trim().length > 0) {
-          restaurantName = place.Dg.displayName;
-        } else if (place.displayName && typeof place.displayName.text === 'string' && place.displayName.text.trim().length > 0) {
-          restaurantName = place.displayName.text;
-        } else if (typeof place.name === 'string' && place.name.trim().length > 0) {
-          restaurantName = place.name;
-        } else if (typeof place.title === 'string' && place.title.trim().length > 0) {
-          restaurantName = place.title;
-        }
-        return {
-          id: place.place_id || place.id,
-          name: restaurantName || 'Unknown Restaurant',
-          rating: place.rating || 0,
-          address: place.formattedAddress || place.vicinity || '',
-          coordinates: {
-            lat: place.location.lat(),
-            lng: place.location.lng(),
-          },
-          cuisine: mapCuisineType(place.types || []),
-          priceLevel: place.priceLevel || 2,
-          image: getBestRestaurantImage(place.photos),
-          distance: calculateDistance(
-            location.lat,
-            location.lng,
-            place.location.lat(),
-            place.location.lng()
-          ),
-          photoAttributions: (place.photos && place.photos[0] && place.photos[0].authorAttributions) ? place.photos[0].authorAttributions : [],
-        };
-      });
-      
-      return restaurants;
+      meterRequest('nearbySearch');
+      const response = await withAbort(Place.searchNearby(request), signal);
+      return (response.places || [])
+        .map((place) => adaptPlaceToRestaurant(place, 'google.searchNearby', location))
+        .filter((restaurant): restaurant is Restaurant => restaurant !== null);
     }
   } catch (error) {
-    console.warn('New Place API failed, falling back to legacy PlacesService:', error);
+    if (isAbortError(error)) throw error;
+    fallBackToLegacy(error, 'google.searchNearby');
   }
 
   // Fallback to legacy PlacesService
-  return new Promise((resolve, reject) => {
+  return withAbort(new Promise<Restaurant[]>((resolve, reject) => {
     const request = {
       // eslint-disable-next-line @typescript-eslint/no-explicit-any
       location: new (window.google.maps.LatLng as any)(location.lat, location.lng),
@@ -317,106 +696,70 @@ export async function searchNearbyRestaurants(
       type: type,
     };
 
+    meterRequest('nearbySearch');
     placesService.nearbySearch(request, (results: GooglePlaceResult[], status: string) => {
       if (status === window.google.maps.places.PlacesServiceStatus.OK) {
-        const restaurants = results.map((place: GooglePlaceResult): Restaurant => ({
-          id: place.place_id,
-          name: place.name,
-          rating: place.rating || 0,
-          address: place.vicinity || '',
-          coordinates: {
-            lat: place.geometry.location.lat(),
-            lng: place.geometry.location.lng(),
-          },
-          cuisine: mapCuisineType(place.types),
-          priceLevel: place.price_level || 2,
-          image: getBestRestaurantImage(place.photos),
-          distance: calculateDistance(
-            location.lat,
-            location.lng,
-            place.geometry.location.lat(),
-            place.geometry.location.lng()
-          ),
-          photoAttributions: [], // No attributions in legacy API
-        }));
-        resolve(restaurants);
+        const restaurants = results.map((place: GooglePlaceResult): Restaurant => {
+          const cuisines = cuisinesFromTypes(place.types);
+          return {
+            id: place.place_id,
+            name: place.name,
+            rating: place.rating || 0,
+            userRatingCount: place.user_ratings_total,
+            address: place.vicinity || '',
+            coordinates: {
+              lat: place.geometry.location.lat(),
+              lng: place.geometry.location.lng(),
+            },
+            cuisine: getCuisineLabel(cuisines),
+            cuisines,
+            dietary: dietaryFromCuisines(cuisines),
+            priceLevel: place.price_level || 2,
+            ...getBestRestaurantPhoto(adaptLegacyPhotos(place.photos)),
+            distance: calculateDistance(
+              location.lat,
+              location.lng,
+              place.geometry.location.lat(),
+              place.geometry.location.lng()
+            ),
+          };
+        });
+        resolve(validatePlaceRecords(restaurantSchema, restaurants, 'google.nearbySearch'));
+      } else if (status === window.google.maps.places.PlacesServiceStatus.ZERO_RESULTS) {
+        resolve([]);
       } else {
-        reject(new Error(`Places API error: ${status}`));
+        reject(fromPlacesStatus(status, 'Places API'));
       }
     });
-  });
+  }), signal);
 }
 
 // Get detailed information about a specific place
-export async function getPlaceDetails(placeId: string): Promise<RestaurantDetails> {
-  await initializeGoogleMapsService();
+export async function getPlaceDetails(placeId: string, signal?: AbortSignal): Promise<RestaurantDetails> {
+  throwIfAborted(signal);
+  await withAbort(initializeGoogleMapsService(), signal);
 
   // Try new Place API first (if available)
   try {
-    // eslint-disable-next-line @typescript-eslint/no-explicit-any
-    if (window.google.maps.places.Place && (window.google.maps.places.Place as any).fetchFields) {
-      const request = {
-        place_id: placeId,
-        // Only use valid fields for the new Place API
-        fields: [
-          'id',
-          'displayName',
-          'formattedAddress',
-          'nationalPhoneNumber',
-          'websiteUri',
-          'rating',
-          'photos',
-          'location',
-          'types',
-          'priceLevel',
-        ],
-      };
+    const Place = window.google.maps.places.Place;
+    if (Place) {
+      const place = new Place({ id: placeId });
+      meterRequest('placeDetails');
+      await withAbort(place.fetchFields({ fields: PLACE_DETAILS_FIELDS }), signal);
 
-      // eslint-disable-next-line @typescript-eslint/no-explicit-any
-      const place = new (window.google.maps.places.Place as any)(request);
-      // eslint-disable-next-line @typescript-eslint/no-explicit-any
-      await (place as any).fetchFields();
-
-      // Log the raw place object and Dg for debugging
-      console.log('Place details object:', place);
-      console.log('Place details Dg:', place.Dg);
-
-      const dg = place.Dg || {};
-      // Define PlacePhoto type for type safety
-      interface PlacePhoto { name?: string; widthPx?: number; heightPx?: number; authorAttributions?: unknown[] }
-      const details: RestaurantDetails = {
-        place_id: dg.id || place.place_id || place.id || placeId,
-        name: dg.displayName || 'Unknown Restaurant',
-        formatted_address: dg.formattedAddress || '',
-        formatted_phone_number: dg.nationalPhoneNumber,
-        website: dg.websiteUri || dg.websiteURI,
-        rating: dg.rating || 0,
-        photos: dg.photos
-          ? dg.photos
-              .filter((photo: PlacePhoto) => typeof photo.name === 'string' && photo.name.trim().length > 0)
-              .map((photo: PlacePhoto) => ({
-                photo_reference: photo.name,
-                width: photo.widthPx,
-                height: photo.heightPx,
-                attributions: photo.authorAttributions || [],
-              }))
-          : [],
-        opening_hours: dg.currentOpeningHours,
-        geometry: {
-          location: {
-            lat: dg.location?.lat ? dg.location.lat() : 0,
-            lng: dg.location?.lng ? dg.location.lng() : 0,
-          },
-        },
-      };
+      const details = adaptPlaceToDetails(place);
+      if (!details) {
+        throw new PlacesError('UNKNOWN', 'Place Details API error: INVALID_RECORD');
+      }
       return details;
     }
   } catch (error) {
-    console.warn('New Place API failed, falling back to legacy PlacesService:', error);
+    if (isAbortError(error)) throw error;
+    fallBackToLegacy(error, 'google.fetchFields');
   }
 
   // Fallback to legacy PlacesService
-  return new Promise((resolve, reject) => {
+  return withAbort(new Promise<RestaurantDetails>((resolve, reject) => {
     const request = {
       placeId: placeId,
       // Use only valid fields for legacy API
@@ -429,14 +772,20 @@ export async function getPlaceDetails(placeId: string): Promise<RestaurantDetail
         'rating',
         'photos',
         'opening_hours',
+        'utc_offset_minutes',
         'geometry',
         'types',
         'price_level',
+        // The legacy service has no service option or accessibility fields
+        'user_ratings_total',
+        'business_status',
       ],
     };
 
+    meterRequest('placeDetails');
     placesService.getDetails(request, (place: GooglePlaceResult, status: string) => {
       if (status === window.google.maps.places.PlacesServiceStatus.OK) {
+        const openingHours = adaptLegacyOpeningHours(place);
         const details: RestaurantDetails = {
           place_id: place.place_id,
           name: place.name,
@@ -444,13 +793,16 @@ export async function getPlaceDetails(placeId: string): Promise<RestaurantDetail
           formatted_phone_number: place.formatted_phone_number,
           website: place.website,
           rating: place.rating || 0,
-          photos: place.photos?.map((photo) => ({
-            photo_reference: photo.photo_reference,
-            width: photo.width,
-            height: photo.height,
-            attributions: [], // No attributions in legacy API
-          })),
-          opening_hours: place.opening_hours,
+          photos: adaptLegacyPhotos(place.photos),
+          opening_hours: place.opening_hours && {
+            weekday_text: place.opening_hours.weekday_text,
+            // `open_now` is deprecated in the legacy API; derive it from the periods when we can
+            open_now: isOpenAt(openingHours, new Date()) ?? place.opening_hours.open_now ?? false,
+            periods: openingHours?.periods,
+          },
+          utc_offset_minutes: place.utc_offset_minutes,
+          user_ratings_total: place.user_ratings_total,
+          business_status: place.business_status,
           geometry: {
             location: {
               lat: place.geometry.location.lat(),
@@ -458,25 +810,32 @@ export async function getPlaceDetails(placeId: string): Promise<RestaurantDetail
             },
           },
         };
-        resolve(details);
+        const validDetails = validatePlaceRecord(restaurantDetailsSchema, details, 'google.getDetails');
+        if (validDetails) {
+          resolve(validDetails);
+        } else {
+          reject(new PlacesError('UNKNOWN', 'Place Details API error: INVALID_RECORD'));
+        }
       } else {
-        reject(new Error(`Place Details API error: ${status}`));
+        reject(fromPlacesStatus(status, 'Place Details API'));
       }
     });
-  });
+  }), signal);
 }
 
-// Get the best featured image for a restaurant
-function getBestRestaurantImage(photos?: Array<{
+// Get the best featured image for a restaurant, with the credits for that
+// same photo
+export function getBestRestaurantPhoto(photos?: Array<{
   photo_reference?: string;
   name?: string;
   height?: number;
   width?: number;
   heightPx?: number;
   widthPx?: number;
-}>): string {
+  attributions?: PhotoAttribution[];
+}>, buildPhotoUrl: PlacesProvider['getPhotoUrl'] = getPlacePhotoUrl): Pick<Restaurant, 'image' | 'photoAttributions'> {
   if (!photos || photos.length === 0) {
-    return '/placeholder.svg';
+    return { image: '/placeholder.svg', photoAttributions: [] };
   }
 
   // Find the best photo (largest and most suitable for restaurant display)
@@ -504,11 +863,16 @@ function getBestRestaurantImage(photos?: Array<{
 
   // Return high-quality image URL (larger size for better quality)
   const photoRef = bestPhoto.photo_reference || bestPhoto.name;
-  return photoRef ? getPlacePhotoUrl(photoRef, 800, 600) : '/placeholder.svg';
+  const image = photoRef ? buildPhotoUrl(photoRef, 800, 600) : '/placeholder.svg';
+  return { image, photoAttributions: image === '/placeholder.svg' ? [] : bestPhoto.attributions || [] };
 }
 
 // Enhance restaurant data with photos if missing
-export async function enhanceRestaurantWithPhotos(restaurant: Restaurant): Promise<Restaurant> {
+export async function enhanceRestaurantWithPhotos(
+  restaurant: Restaurant,
+  provider: PlacesProvider = googlePlacesProvider,
+  signal?: AbortSignal
+): Promise<Restaurant> {
   // If restaurant already has a real image, return as is
   if (restaurant.image !== '/placeholder.svg') {
     return restaurant;
@@ -516,30 +880,27 @@ export async function enhanceRestaurantWithPhotos(restaurant: Restaurant): Promi
 
   try {
     // Fetch detailed place information to get photos
-    const details = await getPlaceDetails(restaurant.id);
+    const details = await provider.getPlaceDetails(restaurant.id, signal);
     
     if (details.photos && details.photos.length > 0) {
       return {
         ...restaurant,
-        image: getBestRestaurantImage(details.photos),
+        ...getBestRestaurantPhoto(details.photos, provider.getPhotoUrl),
       };
     }
   } catch (error) {
+    if (isAbortError(error)) throw error;
     console.warn(`Failed to enhance restaurant ${restaurant.name} with photos:`, error);
   }
 
   return restaurant;
 }
 
-// Enhance multiple restaurants with photos
-export async function enhanceRestaurantsWithPhotos(restaurants: Restaurant[]): Promise<Restaurant[]> {
-  const enhancedRestaurants = await Promise.all(
-    restaurants.map(async (restaurant) => {
-      return await enhanceRestaurantWithPhotos(restaurant);
-    })
-  );
-
-  return enhancedRestaurants;
+// Every photo URL is a billable request once loaded. `ResponsiveImage`
+// meters the one the browser picks; here we only stop handing out new
+// URLs once the budget is spent.
+function guardPhotoUrl(url: string): string {
+  return isOverBudget() ? '/placeholder.svg' : url;
 }
 
 // Generate URL for Google Places photo with optimized parameters
@@ -552,6 +913,19 @@ export function getPlacePhotoUrl(
     return '/placeholder.svg';
   }
 
+  // Photo media URLs from the Places API (New) only need resizing
+  if (photoReference.startsWith('https://')) {
+    const url = new URL(photoReference);
+    if (url.hostname !== 'places.googleapis.com') {
+      // Still a billable photo, metered by `ResponsiveImage` once loaded.
+      // Hosts we can't resize are left as they are.
+      return guardPhotoUrl(resizeImageUrl(url.toString(), maxWidth, maxWidth / maxHeight) ?? url.toString());
+    }
+    url.searchParams.set('maxWidthPx', maxWidth.toString());
+    url.searchParams.set('maxHeightPx', maxHeight.toString());
+    return guardPhotoUrl(url.toString());
+  }
+
   // Handle both old and new photo reference formats
   if (photoReference.startsWith('places/')) {
     // New Place API (New) format - use the photo name directly
@@ -560,7 +934,7 @@ export function getPlacePhotoUrl(
     url.searchParams.append('maxWidthPx', maxWidth.toString());
     url.searchParams.append('maxHeightPx', maxHeight.toString());
     url.searchParams.append('key', GOOGLE_MAPS_API_KEY);
-    return url.toString();
+    return guardPhotoUrl(url.toString());
   } else {
     // Legacy format - use the old photo reference
     const url = new URL(`${GOOGLE_PLACES_BASE_URL}/photo`);
@@ -568,7 +942,7 @@ export function getPlacePhotoUrl(
     url.searchParams.append('maxwidth', maxWidth.toString());
     url.searchParams.append('maxheight', maxHeight.toString());
     url.searchParams.append('key', GOOGLE_MAPS_API_KEY);
-    return url.toString();
+    return guardPhotoUrl(url.toString());
   }
 }
 
@@ -645,15 +1019,17 @@ export function getRestaurantImageWithFallback(
 }
 
 // Reverse geocoding: Convert coordinates to human-readable address
-export async function reverseGeocode(lat: number, lng: number): Promise<string> {
-  await initializeGoogleMapsService();
+export async function reverseGeocode(lat: number, lng: number, signal?: AbortSignal): Promise<string> {
+  throwIfAborted(signal);
+  await withAbort(initializeGoogleMapsService(), signal);
 
-  return new Promise((resolve) => {
+  return withAbort(new Promise<string>((resolve) => {
     // eslint-disable-next-line @typescript-eslint/no-explicit-any
     const geocoder = new (window.google.maps.Geocoder as any)();
     // eslint-disable-next-line @typescript-eslint/no-explicit-any
     const latLng = new (window.google.maps.LatLng as any)(lat, lng);
 
+    meterRequest('geocoding');
     geocoder.geocode({ location: latLng }, (results: GoogleGeocoderResult[], status: string) => {
       if (status === window.google.maps.GeocoderStatus.OK && results.length > 0) {
         resolve(results[0].formatted_address);
@@ -661,28 +1037,19 @@ export async function reverseGeocode(lat: number, lng: number): Promise<string>
         resolve(`${lat.toFixed(4)}, ${lng.toFixed(4)}`);
       }
     });
-  });
+  }), signal);
 }
 
 // Forward geocoding: Search for locations by text query
-export interface LocationSearchResult {
-  place_id: string;
-  name: string;
-  formatted_address: string;
-  location: {
-    lat: number;
-    lng: number;
-  };
-  types: string[];
-}
+export async function searchLocationsByText(query: string, signal?: AbortSignal): Promise<LocationSearchResult[]> {
+  throwIfAborted(signal);
+  await withAbort(initializeGoogleMapsService(), signal);
 
-export async function searchLocationsByText(query: string): Promise<LocationSearchResult[]> {
-  await initializeGoogleMapsService();
-
-  return new Promise((resolve, reject) => {
+  return withAbort(new Promise<LocationSearchResult[]>((resolve, reject) => {
     // eslint-disable-next-line @typescript-eslint/no-explicit-any
     const geocoder = new (window.google.maps.Geocoder as any)();
 
+    meterRequest('geocoding');
     // eslint-disable-next-line @typescript-eslint/no-explicit-any
     geocoder.geocode({ address: query }, (results: any[], status: string) => {
       if (status === window.google.maps.GeocoderStatus.OK && results) {
@@ -696,33 +1063,190 @@ export async function searchLocationsByText(query: string): Promise<LocationSear
             lng: result.geometry.location.lng(),
           },
           types: result.types || [],
+          viewport: adaptViewport(result.geometry.viewport),
+          location_type: result.geometry.location_type,
         }));
         resolve(locations);
       } else if (status === window.google.maps.GeocoderStatus.ZERO_RESULTS) {
         resolve([]);
       } else {
-        reject(new Error(`Geocoding API error: ${status}`));
+        reject(fromPlacesStatus(status, 'Geocoding API'));
       }
     });
-  });
+  }), signal);
+}
+
+// App session ids mapped to the SDK's `AutocompleteSessionToken`, along with
+// the predictions served in the session so a pick can call `toPlace()`
+interface AutocompleteSession {
+  token: object;
+  predictions: Map<string, PlacesApiPlacePrediction>;
+}
+
+// Abandoned sessions are never resolved; only the latest few are kept
+const MAX_AUTOCOMPLETE_SESSIONS = 10;
+const autocompleteSessions = new Map<string, AutocompleteSession>();
+
+function getAutocompleteSession(sessionToken: string): AutocompleteSession {
+  let session = autocompleteSessions.get(sessionToken);
+  if (!session) {
+    session = {
+      token: new window.google.maps.places.AutocompleteSessionToken(),
+      predictions: new Map(),
+    };
+    autocompleteSessions.set(sessionToken, session);
+    if (autocompleteSessions.size > MAX_AUTOCOMPLETE_SESSIONS) {
+      autocompleteSessions.delete(autocompleteSessions.keys().next().value);
+    }
+  }
+  return session;
+}
+
+// Type-ahead predictions. Keystrokes that share a session token are billed
+// as one session, closed by `resolvePrediction`.
+export async function getAutocompletePredictions(
+  input: string,
+  options: AutocompleteOptions = {},
+  signal?: AbortSignal
+): Promise<PlacePrediction[]> {
+  throwIfAborted(signal);
+  await withAbort(initializeGoogleMapsService(), signal);
+
+  const session = options.sessionToken ? getAutocompleteSession(options.sessionToken) : undefined;
+  const locationBias = options.location ? {
+    center: { lat: options.location.lat, lng: options.location.lng },
+    radius: options.radius || 50000,
+  } : undefined;
+
+  // Try new Place API first (if available)
+  try {
+    const AutocompleteSuggestion = window.google.maps.places.AutocompleteSuggestion;
+    if (AutocompleteSuggestion) {
+      meterRequest('autocomplete');
+      const response = await withAbort(
+        AutocompleteSuggestion.fetchAutocompleteSuggestions({ input, sessionToken: session?.token, locationBias }),
+        signal
+      );
+      return (response.suggestions || [])
+        .map((suggestion) => suggestion.placePrediction)
+        .filter((prediction): prediction is PlacesApiPlacePrediction => prediction !== null)
+        .map((prediction) => {
+          session?.predictions.set(prediction.placeId, prediction);
+          return adaptPlacePrediction(prediction);
+        });
+    }
+  } catch (error) {
+    if (isAbortError(error)) throw error;
+    fallBackToLegacy(error, 'google.fetchAutocompleteSuggestions');
+  }
+
+  // Fallback to legacy AutocompleteService
+  return withAbort(new Promise<PlacePrediction[]>((resolve, reject) => {
+    const service = new window.google.maps.places.AutocompleteService();
+
+    meterRequest('autocomplete');
+    service.getPlacePredictions(
+      { input, sessionToken: session?.token, locationBias },
+      (predictions, status) => {
+        if (status === window.google.maps.places.PlacesServiceStatus.OK && predictions) {
+          resolve(predictions.map(adaptLegacyPrediction));
+        } else if (status === window.google.maps.places.PlacesServiceStatus.ZERO_RESULTS) {
+          resolve([]);
+        } else {
+          reject(fromPlacesStatus(status, 'Autocomplete API'));
+        }
+      }
+    );
+  }), signal);
+}
+
+// Look up a picked prediction. The details request ends the autocomplete
+// session; it is forgotten once the lookup succeeds so retries keep the token.
+export async function resolvePrediction(
+  placeId: string,
+  sessionToken?: string,
+  signal?: AbortSignal
+): Promise<LocationSearchResult> {
+  throwIfAborted(signal);
+  await withAbort(initializeGoogleMapsService(), signal);
+
+  const session = sessionToken ? autocompleteSessions.get(sessionToken) : undefined;
+  const closeSession = <T>(result: T): T => {
+    if (sessionToken) autocompleteSessions.delete(sessionToken);
+    return result;
+  };
+
+  // Try new Place API first (if available)
+  try {
+    const Place = window.google.maps.places.Place;
+    const prediction = session?.predictions.get(placeId);
+    // A bare `new Place({ id })` can't carry the session token, so a session
+    // without the picked suggestion ends through the legacy service below
+    if (prediction || (Place && !session)) {
+      const place = prediction ? prediction.toPlace() : new Place({ id: placeId });
+      meterRequest('placeDetails');
+      await withAbort(
+        place.fetchFields({ fields: ['displayName', 'formattedAddress', 'location', 'viewport', 'types'] }),
+        signal
+      );
+
+      const location = adaptPlaceToLocation(place);
+      if (!location) {
+        throw new PlacesError('UNKNOWN', 'Place Details API error: INVALID_RECORD');
+      }
+      return closeSession(location);
+    }
+  } catch (error) {
+    if (isAbortError(error)) throw error;
+    fallBackToLegacy(error, 'google.toPlace');
+  }
+
+  // Fallback to legacy PlacesService
+  return withAbort(new Promise<LocationSearchResult>((resolve, reject) => {
+    const request = {
+      placeId,
+      sessionToken: session?.token,
+      fields: ['place_id', 'name', 'formatted_address', 'geometry', 'types'],
+    };
+
+    meterRequest('placeDetails');
+    placesService.getDetails(request, (place: GooglePlaceResult, status: string) => {
+      if (status === window.google.maps.places.PlacesServiceStatus.OK) {
+        resolve(closeSession({
+          place_id: place.place_id,
+          name: place.name,
+          formatted_address: place.formatted_address || '',
+          location: {
+            lat: place.geometry.location.lat(),
+            lng: place.geometry.location.lng(),
+          },
+          types: place.types || [],
+          viewport: adaptViewport(place.geometry.viewport),
+        }));
+      } else {
+        reject(fromPlacesStatus(status, 'Place Details API'));
+      }
+    });
+  }), signal);
 }
 
 // Search places by text query using JavaScript API
 export async function searchPlacesByText(
   query: string,
   location?: UserLocation,
-  radius?: number
+  radius?: number,
+  signal?: AbortSignal
 ): Promise<Restaurant[]> {
-  await initializeGoogleMapsService();
+  throwIfAborted(signal);
+  await withAbort(initializeGoogleMapsService(), signal);
 
   // Try new Place API first (if available)
   try {
-    // eslint-disable-next-line @typescript-eslint/no-explicit-any
-    if (window.google.maps.places.Place && (window.google.maps.places.Place as any).searchByText) {
+    const Place = window.google.maps.places.Place;
+    if (Place?.searchByText) {
       const request = {
-        // Only use valid fields for the new Place API
         textQuery: query,
-        fields: ['id', 'displayName', 'formattedAddress', 'location', 'rating', 'priceLevel', 'types', 'photos'],
+        fields: PLACE_LIST_FIELDS,
         locationRestriction: location ? {
           center: { lat: location.lat, lng: location.lng },
           radius: radius || 50000, // 50km default if not specified
@@ -731,40 +1255,19 @@ export async function searchPlacesByText(
         maxResultCount: 20,
       };
 
-      // eslint-disable-next-line @typescript-eslint/no-explicit-any
-      const response = await (window.google.maps.places.Place as any).searchByText(request);
-      const places = response.places || [];
-      
-      // eslint-disable-next-line @typescript-eslint/no-explicit-any
-      const restaurants = places.map((place: any): Restaurant => ({
-        id: place.place_id || place.id,
-        name: place.displayName?.text || place.name || 'Unknown Restaurant',
-        rating: place.rating || 0,
-        address: place.formattedAddress || '',
-        coordinates: {
-          lat: place.location.lat(),
-          lng: place.location.lng(),
-        },
-        cuisine: mapCuisineType(place.types || []),
-        priceLevel: place.priceLevel || 2,
-        image: getBestRestaurantImage(place.photos),
-        distance: location ? calculateDistance(
-          location.lat,
-          location.lng,
-          place.location.lat(),
-          place.location.lng()
-        ) : 0,
-        photoAttributions: (place.photos && place.photos[0] && place.photos[0].authorAttributions) ? place.photos[0].authorAttributions : [],
-      }));
-      
-      return restaurants;
+      meterRequest('textSearch');
+      const response = await withAbort(Place.searchByText(request), signal);
+      return (response.places || [])
+        .map((place) => adaptPlaceToRestaurant(place, 'google.searchByText', location))
+        .filter((restaurant): restaurant is Restaurant => restaurant !== null);
     }
   } catch (error) {
-    console.warn('New Place API failed, falling back to legacy PlacesService:', error);
+    if (isAbortError(error)) throw error;
+    fallBackToLegacy(error, 'google.searchByText');
   }
 
   // Fallback to legacy PlacesService
-  return new Promise((resolve, reject) => {
+  return withAbort(new Promise<Restaurant[]>((resolve, reject) => {
     // eslint-disable-next-line @typescript-eslint/no-explicit-any
     const request: any = {
       query: query,
@@ -779,47 +1282,106 @@ export async function searchPlacesByText(
       }
     }
 
+    meterRequest('textSearch');
     placesService.textSearch(request, (results: GooglePlaceResult[], status: string) => {
       if (status === window.google.maps.places.PlacesServiceStatus.OK) {
-        const restaurants = results.map((place: GooglePlaceResult): Restaurant => ({
-          id: place.place_id,
-          name: place.name,
-          rating: place.rating || 0,
-          address: place.formatted_address || '',
-          coordinates: {
-            lat: place.geometry.location.lat(),
-            lng: place.geometry.location.lng(),
-          },
-          cuisine: mapCuisineType(place.types),
-          priceLevel: place.price_level || 2,
-          image: getBestRestaurantImage(place.photos),
-          distance: location ? calculateDistance(
-            location.lat,
-            location.lng,
-            place.geometry.location.lat(),
-            place.geometry.location.lng()
-          ) : 0,
-          photoAttributions: [], // No attributions in legacy API
-        }));
-        resolve(restaurants);
+        const restaurants = results.map((place: GooglePlaceResult): Restaurant => {
+          const cuisines = cuisinesFromTypes(place.types);
+          return {
+            id: place.place_id,
+            name: place.name,
+            rating: place.rating || 0,
+            userRatingCount: place.user_ratings_total,
+            address: place.formatted_address || '',
+            coordinates: {
+              lat: place.geometry.location.lat(),
+              lng: place.geometry.location.lng(),
+            },
+            cuisine: getCuisineLabel(cuisines),
+            cuisines,
+            dietary: dietaryFromCuisines(cuisines),
+            priceLevel: place.price_level || 2,
+            ...getBestRestaurantPhoto(adaptLegacyPhotos(place.photos)),
+            distance: location ? calculateDistance(
+              location.lat,
+              location.lng,
+              place.geometry.location.lat(),
+              place.geometry.location.lng()
+            ) : 0,
+          };
+        });
+        resolve(validatePlaceRecords(restaurantSchema, restaurants, 'google.textSearch'));
       } else if (status === window.google.maps.places.PlacesServiceStatus.ZERO_RESULTS) {
         resolve([]);
       } else {
-        reject(new Error(`Text Search API error: ${status}`));
+        reject(fromPlacesStatus(status, 'Text Search API'));
       }
     });
-  });
+  }), signal);
 }
 
-// Generate Google Maps URL for directions
-export function getDirectionsUrl(destination: { lat: number; lng: number }, origin?: { lat: number; lng: number }): string {
-  const baseUrl = 'https://www.google.com/maps/dir/';
-  
-  if (origin) {
-    return `${baseUrl}${origin.lat},${origin.lng}/${destination.lat},${destination.lng}`;
-  } else {
-    return `${baseUrl}Current+Location/${destination.lat},${destination.lng}`;
+const DISTANCE_MATRIX_MODES: Record<TravelMode, string> = {
+  walk: 'WALKING',
+  transit: 'TRANSIT',
+  drive: 'DRIVING',
+};
+
+// Distance Matrix accepts at most 25 destinations per request
+const MAX_MATRIX_DESTINATIONS = 25;
+
+// ETAs from the Distance Matrix service. Destinations it can't route (e.g.
+// no transit nearby) get an offline estimate instead.
+export async function getTravelTimes(
+  origin: Pick<UserLocation, 'lat' | 'lng'>,
+  destinations: TravelDestination[],
+  mode: TravelMode,
+  signal?: AbortSignal
+): Promise<Record<string, TravelTime>> {
+  throwIfAborted(signal);
+  await withAbort(initializeGoogleMapsService(), signal);
+
+  if (!window.google.maps.DistanceMatrixService) {
+    return estimateTravelTimes(origin, destinations, mode);
+  }
+  const service = new window.google.maps.DistanceMatrixService();
+
+  const travelTimes: Record<string, TravelTime> = {};
+  for (let start = 0; start < destinations.length; start += MAX_MATRIX_DESTINATIONS) {
+    const batch = destinations.slice(start, start + MAX_MATRIX_DESTINATIONS);
+    const batchTimes = await withAbort(new Promise<Record<string, TravelTime>>((resolve, reject) => {
+      const request = {
+        origins: [{ lat: origin.lat, lng: origin.lng }],
+        destinations: batch.map((destination) => ({ lat: destination.lat, lng: destination.lng })),
+        travelMode: DISTANCE_MATRIX_MODES[mode],
+      };
+
+      // Billed per element
+      batch.forEach(() => meterRequest('distanceMatrix'));
+      service.getDistanceMatrix(request, (response, status) => {
+        if (status !== 'OK' || !response) {
+          reject(fromPlacesStatus(status, 'Distance Matrix API'));
+          return;
+        }
+        const elements = response.rows[0]?.elements || [];
+        resolve(Object.fromEntries(batch.map((destination, index): [string, TravelTime] => {
+          const element = elements[index];
+          return [
+            destination.id,
+            element?.status === 'OK' && element.duration && element.distance
+              ? {
+                mode,
+                durationSeconds: element.duration.value,
+                distanceMeters: element.distance.value,
+                estimated: false,
+              }
+              : estimateTravelTime(origin, destination, mode),
+          ];
+        })));
+      });
+    }), signal);
+    Object.assign(travelTimes, batchTimes);
   }
+  return travelTimes;
 }
 
 // Generate static map image URL
@@ -828,7 +1390,7 @@ export function getStaticMapUrl(
   zoom: number = 15,
   width: number = 400,
   height: number = 300,
-  markers?: { lat: number; lng: number; label?: string }[]
+  markers?: StaticMapMarker[]
 ): string {
   if (!GOOGLE_MAPS_API_KEY) {
     return '/placeholder.svg';
@@ -841,13 +1403,32 @@ export function getStaticMapUrl(
   url.searchParams.append('key', GOOGLE_MAPS_API_KEY);
 
   if (markers && markers.length > 0) {
-    markers.forEach((marker, index) => {
-      const label = marker.label || String.fromCharCode(65 + index); // A, B, C...
-      url.searchParams.append('markers', `label:${label}|${marker.lat},${marker.lng}`);
+    markers.forEach((marker) => {
+      const style = [
+        marker.size && `size:${marker.size}`,
+        marker.color && `color:${marker.color}`,
+        marker.label && `label:${marker.label}`,
+      ].filter(Boolean);
+      url.searchParams.append('markers', [...style, `${marker.lat},${marker.lng}`].join('|'));
     });
   } else {
     url.searchParams.append('markers', `${center.lat},${center.lng}`);
   }
 
-  return url.toString();
-} 
\ No newline at end of file
+  return meterUrl('staticMap', url.toString()) ? url.toString() : '/placeholder.svg';
+}
+
+// Google Maps implementation of the PlacesProvider interface
+export const googlePlacesProvider: PlacesProvider = {
+  id: 'google',
+  label: 'Google Maps Places API',
+  searchNearbyRestaurants,
+  getPlaceDetails,
+  searchPlacesByText,
+  searchLocationsByText,
+  reverseGeocode,
+  getAutocompletePredictions,
+  resolvePrediction,
+  getTravelTimes,
+  getPhotoUrl: getPlacePhotoUrl,
+};
\ No newline at end of file
@@ -0,0 +1,165 @@
+// Interactive map helpers: the Maps JS API surface we use and marker styling
+import { UserLocation, Viewport } from '@/types';
+import type { RestaurantCluster } from '@/lib/markerClustering';
+
+export interface LatLngLiteral {
+  lat: number;
+  lng: number;
+}
+
+// Documented members of the Maps JS API classes the map view uses
+export interface MapsLatLng {
+  lat(): number;
+  lng(): number;
+}
+
+export interface MapsLatLngBounds {
+  getNorthEast(): MapsLatLng;
+  getSouthWest(): MapsLatLng;
+}
+
+export interface MapsEventListener {
+  remove(): void;
+}
+
+export interface MapsMap {
+  getBounds(): MapsLatLngBounds | undefined;
+  getZoom(): number | undefined;
+  setCenter(center: LatLngLiteral): void;
+  setZoom(zoom: number): void;
+  panTo(center: LatLngLiteral): void;
+  addListener(event: string, handler: () => void): MapsEventListener;
+}
+
+export interface MapsSymbol {
+  path: number;
+  scale: number;
+  fillColor: string;
+  fillOpacity: number;
+  strokeColor: string;
+  strokeWeight: number;
+}
+
+export interface MapsMarkerLabel {
+  text: string;
+  color: string;
+  fontSize: string;
+  fontWeight: string;
+}
+
+export interface MapsMarker {
+  setMap(map: MapsMap | null): void;
+  setPosition(position: LatLngLiteral): void;
+  setIcon(icon: MapsSymbol): void;
+  setLabel(label: MapsMarkerLabel | null): void;
+  setTitle(title: string): void;
+  setZIndex(zIndex: number): void;
+  addListener(event: string, handler: () => void): MapsEventListener;
+}
+
+export interface MapsCircle {
+  setMap(map: MapsMap | null): void;
+  setCenter(center: LatLngLiteral): void;
+  setRadius(radius: number): void;
+}
+
+export interface MapsApi {
+  Map: new (element: HTMLElement, options: object) => MapsMap;
+  Marker: new (options: object) => MapsMarker;
+  Circle: new (options: object) => MapsCircle;
+  SymbolPath: { CIRCLE: number };
+}
+
+export const DEFAULT_MAP_ZOOM = 14;
+
+export const USER_LOCATION_COLOR = '#2563eb';
+const UNRATED_COLOR = '#6b7280';
+
+// Highest matching stop wins; Places reports 0 for unrated venues
+export const RATING_COLOR_STOPS: Array<{ minRating: number; color: string; label: string }> = [
+  { minRating: 4.5, color: '#16a34a', label: '4.5+' },
+  { minRating: 4, color: '#65a30d', label: '4+' },
+  { minRating: 3.5, color: '#ca8a04', label: '3.5+' },
+  { minRating: 0.1, color: '#ea580c', label: 'Under 3.5' },
+];
+
+export function getRatingColor(rating: number): string {
+  return RATING_COLOR_STOPS.find((stop) => rating >= stop.minRating)?.color ?? UNRATED_COLOR;
+}
+
+export function getRestaurantMarkerIcon(api: MapsApi, rating: number, selected: boolean): MapsSymbol {
+  return {
+    path: api.SymbolPath.CIRCLE,
+    scale: selected ? 11 : 8,
+    fillColor: getRatingColor(rating),
+    fillOpacity: 1,
+    strokeColor: selected ? '#111827' : '#ffffff',
+    strokeWeight: selected ? 3 : 2,
+  };
+}
+
+// Grows with the number of restaurants inside, coloured by their average rating
+export function getClusterMarkerIcon(api: MapsApi, cluster: RestaurantCluster): MapsSymbol {
+  return {
+    path: api.SymbolPath.CIRCLE,
+    scale: Math.min(12 + Math.log2(cluster.restaurants.length) * 3, 26),
+    fillColor: getRatingColor(cluster.averageRating ?? 0),
+    fillOpacity: 0.9,
+    strokeColor: '#ffffff',
+    strokeWeight: 3,
+  };
+}
+
+export function getClusterMarkerLabel(cluster: RestaurantCluster): MapsMarkerLabel {
+  return { text: String(cluster.restaurants.length), color: '#ffffff', fontSize: '12px', fontWeight: '600' };
+}
+
+export function getUserMarkerIcon(api: MapsApi): MapsSymbol {
+  return {
+    path: api.SymbolPath.CIRCLE,
+    scale: 7,
+    fillColor: USER_LOCATION_COLOR,
+    fillOpacity: 1,
+    strokeColor: '#ffffff',
+    strokeWeight: 3,
+  };
+}
+
+export function boundsToViewport(bounds: MapsLatLngBounds): Viewport {
+  const northeast = bounds.getNorthEast();
+  const southwest = bounds.getSouthWest();
+  return {
+    northeast: { lat: northeast.lat(), lng: northeast.lng() },
+    southwest: { lat: southwest.lat(), lng: southwest.lng() },
+  };
+}
+
+export interface StaticMapMarker {
+  lat: number;
+  lng: number;
+  // One character, A-Z or 0-9
+  label?: string;
+  // 0xRRGGBB or a named colour
+  color?: string;
+  size?: 'tiny' | 'small' | 'mid';
+}
+
+// Static map markers for clustered results: small rating-coloured dots for
+// single restaurants, and bigger markers for groups, labelled with their
+// size when it fits in one digit
+export function toStaticMapMarkers(clusters: RestaurantCluster[], userLocation?: UserLocation | null): StaticMapMarker[] {
+  const toStaticColor = (color: string) => color.replace('#', '0x');
+  return [
+    ...(userLocation ? [{ lat: userLocation.lat, lng: userLocation.lng, label: 'U', color: toStaticColor(USER_LOCATION_COLOR) }] : []),
+    ...clusters.map((cluster): StaticMapMarker => {
+      const count = cluster.restaurants.length;
+      return count === 1
+        ? { ...cluster.center, color: toStaticColor(getRatingColor(cluster.restaurants[0].rating)), size: 'small' }
+        : {
+          ...cluster.center,
+          color: toStaticColor(getRatingColor(cluster.averageRating ?? 0)),
+          label: count < 10 ? String(count) : undefined,
+        };
+    }),
+  ];
+}
@@ -0,0 +1,105 @@
+// Client-side marker clustering: groups restaurants that would overlap at a zoom level
+import { Restaurant, Viewport } from '@/types';
+
+type Coordinates = Restaurant['coordinates'];
+
+export interface RestaurantCluster {
+  // Single restaurants keep their place id so selection still matches
+  id: string;
+  center: Coordinates;
+  restaurants: Restaurant[];
+  // Over rated members only; null when none are rated
+  averageRating: number | null;
+  bounds: Viewport;
+}
+
+export interface ClusterOptions {
+  // Markers closer than this on screen are grouped
+  radiusPx?: number;
+  // At and past this zoom every restaurant gets its own marker
+  maxZoom?: number;
+}
+
+const DEFAULT_CLUSTER_RADIUS_PX = 40;
+export const MAX_CLUSTER_ZOOM = 17;
+
+const TILE_SIZE = 256;
+
+// Web Mercator world coordinates in pixels, as the map draws them
+function toWorldPixels({ lat, lng }: Coordinates, zoom: number): { x: number; y: number } {
+  const scale = TILE_SIZE * 2 ** zoom;
+  const sinLat = Math.min(Math.max(Math.sin((lat * Math.PI) / 180), -0.9999), 0.9999);
+  return {
+    x: ((lng + 180) / 360) * scale,
+    y: (0.5 - Math.log((1 + sinLat) / (1 - sinLat)) / (4 * Math.PI)) * scale,
+  };
+}
+
+function toCluster(restaurants: Restaurant[]): RestaurantCluster {
+  const lats = restaurants.map((restaurant) => restaurant.coordinates.lat);
+  const lngs = restaurants.map((restaurant) => restaurant.coordinates.lng);
+  const ratings = restaurants.map((restaurant) => restaurant.rating).filter((rating) => rating > 0);
+  const sum = (values: number[]) => values.reduce((total, value) => total + value, 0);
+
+  return {
+    id: restaurants.length === 1 ? restaurants[0].id : `cluster:${restaurants.map((restaurant) => restaurant.id).join(',')}`,
+    center: { lat: sum(lats) / lats.length, lng: sum(lngs) / lngs.length },
+    restaurants,
+    averageRating: ratings.length ? sum(ratings) / ratings.length : null,
+    bounds: {
+      northeast: { lat: Math.max(...lats), lng: Math.max(...lngs) },
+      southwest: { lat: Math.min(...lats), lng: Math.min(...lngs) },
+    },
+  };
+}
+
+// Greedy clustering in screen space: each restaurant not yet taken starts a
+// cluster and takes every free restaurant within `radiusPx` of it. Input
+// order decides the seeds, so the same list always clusters the same way.
+export function clusterRestaurants(
+  restaurants: Restaurant[],
+  zoom: number,
+  { radiusPx = DEFAULT_CLUSTER_RADIUS_PX, maxZoom = MAX_CLUSTER_ZOOM }: ClusterOptions = {}
+): RestaurantCluster[] {
+  if (zoom >= maxZoom) {
+    return restaurants.map((restaurant) => toCluster([restaurant]));
+  }
+
+  const points = restaurants.map((restaurant) => toWorldPixels(restaurant.coordinates, zoom));
+  const taken = new Array<boolean>(restaurants.length).fill(false);
+  const clusters: RestaurantCluster[] = [];
+
+  restaurants.forEach((_, seed) => {
+    if (taken[seed]) {
+      return;
+    }
+    const members: Restaurant[] = [];
+    restaurants.forEach((restaurant, index) => {
+      if (!taken[index] && Math.hypot(points[index].x - points[seed].x, points[index].y - points[seed].y) <= radiusPx) {
+        taken[index] = true;
+        members.push(restaurant);
+      }
+    });
+    clusters.push(toCluster(members));
+  });
+  return clusters;
+}
+
+// First zoom level at which tapping a cluster splits it apart
+export function getClusterExpansionZoom(
+  cluster: RestaurantCluster,
+  zoom: number,
+  options: ClusterOptions = {}
+): number {
+  const maxZoom = options.maxZoom ?? MAX_CLUSTER_ZOOM;
+  for (let next = Math.floor(zoom) + 1; next < maxZoom; next++) {
+    if (clusterRestaurants(cluster.restaurants, next, options).length > 1) {
+      return next;
+    }
+  }
+  return maxZoom;
+}
+
+export function findRestaurantCluster(clusters: RestaurantCluster[], placeId: string): RestaurantCluster | undefined {
+  return clusters.find((cluster) => cluster.restaurants.some((restaurant) => restaurant.id === placeId));
+}
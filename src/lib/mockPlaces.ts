@@ -0,0 +1,408 @@
+// Fixture-backed places provider for development without an API key
+import {
+  LocationSearchResult,
+  OpeningPeriod,
+  PhotoAttribution,
+  Restaurant,
+  RestaurantDetails,
+  UserLocation,
+  Viewport,
+} from '@/types';
+import type { PlacesProvider } from '@/lib/placesProvider';
+import { calculateDistance } from '@/lib/geo';
+import { abortableDelay, throwIfAborted } from '@/lib/abort';
+import { fromPlacesStatus } from '@/lib/placesErrors';
+import { getUtcOffsetMinutes, isOpenAt } from '@/lib/openingHours';
+import { cuisinesFromNames, cuisinesFromTypes, matchesCuisine, mergeCuisines } from '@/lib/cuisines';
+import { dietaryFromCuisines, mergeDietary } from '@/lib/dietary';
+import { MAX_PREDICTIONS, toPredictions } from '@/lib/placesAutocomplete';
+import { estimateTravelTimes } from '@/lib/travelTime';
+import torontoNeighbourhoods from '@/data/fixtures/torontoNeighbourhoods.json';
+
+// Shape of one entry in src/data/fixtures/torontoVenues.json
+export interface MockVenue {
+  id: string;
+  name: string;
+  address: string;
+  neighbourhood: string;
+  location: { lat: number; lng: number };
+  cuisine: string;
+  types: string[];
+  rating: number;
+  userRatingCount: number;
+  priceLevel: number;
+  phone?: string;
+  website?: string;
+  // Sunday-first, "HH:MM-HH:MM" ranges separated by commas, "" when closed
+  hours: string[];
+  photos: Array<{ url: string; width: number; height: number }>;
+}
+
+export interface MockPlacesOptions {
+  // Simulated response time range in milliseconds
+  latencyMs?: [number, number];
+  // Probability (0-1) that a call fails with a simulated API error
+  errorRate?: number;
+  random?: () => number;
+}
+
+// Downtown Toronto, used when the app has no location yet
+export const MOCK_DEFAULT_LOCATION: UserLocation = {
+  lat: 43.6532,
+  lng: -79.3832,
+  address: 'Toronto, ON',
+};
+
+const MAX_RESULT_COUNT = 20;
+const VENUE_TIMEZONE = 'America/Toronto';
+const WEEKDAYS = ['Sunday', 'Monday', 'Tuesday', 'Wednesday', 'Thursday', 'Friday', 'Saturday'];
+const SIMULATED_ERRORS = ['UNKNOWN_ERROR', 'OVER_QUERY_LIMIT'];
+// City limits, roughly
+const TORONTO_VIEWPORT: Viewport = {
+  northeast: { lat: 43.8555, lng: -79.1169 },
+  southwest: { lat: 43.581, lng: -79.6393 },
+};
+// Fixture neighbourhoods are points; each gets a viewport ~1.5 km across
+const NEIGHBOURHOOD_HALF_SPAN = { lat: 0.007, lng: 0.0095 };
+const UNSPLASH_ATTRIBUTION: PhotoAttribution = { displayName: 'Unsplash', uri: 'https://unsplash.com' };
+
+let venuesPromise: Promise<MockVenue[]> | null = null;
+
+// Fixtures are loaded lazily so they stay out of the main bundle
+function loadVenues(): Promise<MockVenue[]> {
+  if (!venuesPromise) {
+    venuesPromise = import('@/data/fixtures/torontoVenues.json').then((module) => module.default as MockVenue[]);
+  }
+  return venuesPromise;
+}
+
+function toMinutes(time: string): number {
+  const [hours, minutes] = time.split(':').map(Number);
+  return hours * 60 + minutes;
+}
+
+function formatTime(time: string): string {
+  const minutes = toMinutes(time) % (24 * 60);
+  const hours = Math.floor(minutes / 60);
+  const suffix = hours < 12 ? 'AM' : 'PM';
+  return `${hours % 12 || 12}:${String(minutes % 60).padStart(2, '0')} ${suffix}`;
+}
+
+// Google-style weekday_text, Monday first
+function formatWeekdayText(hours: string[]): string[] {
+  return [1, 2, 3, 4, 5, 6, 0].map((day) => {
+    const ranges = hours[day];
+    if (!ranges) return `${WEEKDAYS[day]}: Closed`;
+    if (ranges === '00:00-24:00') return `${WEEKDAYS[day]}: Open 24 hours`;
+    const text = ranges
+      .split(',')
+      .map((range) => range.split('-').map(formatTime).join(' – '))
+      .join(', ');
+    return `${WEEKDAYS[day]}: ${text}`;
+  });
+}
+
+// Ranges closing at or before their opening time (e.g. "17:00-02:00") close the next day
+function toOpeningPeriods(hours: string[]): OpeningPeriod[] {
+  return hours.flatMap((ranges, day) =>
+    ranges.split(',').filter(Boolean).map((range) => {
+      const [open, close] = range.split('-').map(toMinutes);
+      const closeMinutes = close % (24 * 60);
+      return {
+        open: { day, hour: Math.floor(open / 60), minute: open % 60 },
+        close: {
+          day: close <= open || close >= 24 * 60 ? (day + 1) % 7 : day,
+          hour: Math.floor(closeMinutes / 60),
+          minute: closeMinutes % 60,
+        },
+      };
+    })
+  );
+}
+
+function getMockPhotoUrl(photoReference: string, maxWidth: number = 800, maxHeight: number = 600): string {
+  if (!photoReference.startsWith('http')) {
+    return '/placeholder.svg';
+  }
+  if (photoReference.includes('?')) {
+    return photoReference;
+  }
+  return `${photoReference}?w=${maxWidth}&h=${maxHeight}&fit=crop`;
+}
+
+// Fixture types plus the fixture's own cuisine label, which is all some venues have
+function venueCuisines(venue: MockVenue): string[] {
+  return mergeCuisines(cuisinesFromTypes(venue.types), cuisinesFromNames([venue.cuisine]));
+}
+
+// Venues with vegetarian dishes, for both the list and the details screen
+const VEGETARIAN_TYPES = ['vegetarian_restaurant', 'vegan_restaurant', 'indian_restaurant', 'middle_eastern_restaurant'];
+
+function toRestaurant(venue: MockVenue, location?: UserLocation): Restaurant {
+  const cuisines = venueCuisines(venue);
+  const vegetarian = VEGETARIAN_TYPES.some((type) => venue.types.includes(type));
+  return {
+    id: venue.id,
+    name: venue.name,
+    rating: venue.rating,
+    userRatingCount: venue.userRatingCount,
+    address: venue.address,
+    coordinates: venue.location,
+    cuisine: venue.cuisine,
+    cuisines,
+    priceLevel: venue.priceLevel,
+    image: venue.photos[0] ? getMockPhotoUrl(venue.photos[0].url) : '/placeholder.svg',
+    distance: location
+      ? calculateDistance(location.lat, location.lng, venue.location.lat, venue.location.lng)
+      : 0,
+    photoAttributions: venue.photos.length > 0 ? [UNSPLASH_ATTRIBUTION] : [],
+    openingHours: { periods: toOpeningPeriods(venue.hours), timeZone: VENUE_TIMEZONE },
+    dietary: mergeDietary(dietaryFromCuisines(cuisines), vegetarian ? ['vegetarian'] : []),
+  };
+}
+
+// Typical spend per person in CAD for each price level
+const MOCK_PRICE_RANGES: Record<number, [number, number?]> = {
+  0: [0, 10],
+  1: [10, 20],
+  2: [20, 40],
+  3: [40, 80],
+  4: [80],
+};
+
+const TAKEOUT_TYPES = ['fast_food_restaurant', 'pizza_restaurant', 'bakery', 'cafe', 'coffee_shop', 'hamburger_restaurant'];
+
+// The fixtures have no service attributes, so they are derived from the
+// venue's types and price level to give the details screen something to show
+function mockAttributes(venue: MockVenue): Partial<RestaurantDetails> {
+  const hasType = (...types: string[]) => types.some((type) => venue.types.includes(type));
+  const [start, end] = MOCK_PRICE_RANGES[venue.priceLevel] || MOCK_PRICE_RANGES[2];
+  return {
+    user_ratings_total: venue.userRatingCount,
+    editorial_summary: `${venue.cuisine} spot in ${venue.neighbourhood}.`,
+    price_range: { currency: 'CAD', start, end },
+    business_status: 'OPERATIONAL',
+    dine_in: !hasType('bakery', 'coffee_shop'),
+    takeout: hasType(...TAKEOUT_TYPES) || venue.priceLevel <= 2,
+    delivery: hasType('pizza_restaurant', 'fast_food_restaurant'),
+    reservable: venue.priceLevel >= 3,
+    serves_vegetarian_food: hasType(...VEGETARIAN_TYPES),
+    serves_alcohol: hasType('bar', 'steak_house') || venue.priceLevel >= 3,
+  };
+}
+
+function toDetails(venue: MockVenue): RestaurantDetails {
+  const periods = toOpeningPeriods(venue.hours);
+  return {
+    place_id: venue.id,
+    name: venue.name,
+    formatted_address: venue.address,
+    formatted_phone_number: venue.phone,
+    website: venue.website,
+    rating: venue.rating,
+    photos: venue.photos.map((photo) => ({
+      photo_reference: photo.url,
+      width: photo.width,
+      height: photo.height,
+      attributions: [UNSPLASH_ATTRIBUTION],
+    })),
+    opening_hours: {
+      weekday_text: formatWeekdayText(venue.hours),
+      open_now: isOpenAt({ periods, timeZone: VENUE_TIMEZONE }, new Date()) ?? false,
+      periods,
+    },
+    utc_offset_minutes: getUtcOffsetMinutes(VENUE_TIMEZONE),
+    ...mockAttributes(venue),
+    geometry: { location: venue.location },
+  };
+}
+
+// Every whitespace-separated term must appear somewhere in the venue
+function matchesQuery(venue: MockVenue, query: string): boolean {
+  const haystack = [venue.name, venue.cuisine, venue.address, venue.neighbourhood, ...venue.types]
+    .join(' ')
+    .toLowerCase()
+    .replace(/_/g, ' ');
+  return query
+    .toLowerCase()
+    .split(/\s+/)
+    .filter(Boolean)
+    .every((term) => haystack.includes(term));
+}
+
+// Accepts Google place types ("thai_restaurant") as well as cuisine ids
+// ("thai"); parent cuisines match their children, so "asian" finds ramen
+function matchesType(venue: MockVenue, type: string): boolean {
+  const needle = type.toLowerCase();
+  if (venue.types.includes(needle)) {
+    return true;
+  }
+  const cuisine = cuisinesFromTypes([needle])[0] || cuisinesFromNames([needle])[0];
+  return cuisine !== undefined && matchesCuisine(venueCuisines(venue), cuisine);
+}
+
+// Neighbourhoods by name, then venues
+async function findLocations(query: string): Promise<LocationSearchResult[]> {
+  const venues = await loadVenues();
+  const needle = query.trim().toLowerCase();
+
+  const areas: LocationSearchResult[] = [
+    { name: 'Toronto', location: MOCK_DEFAULT_LOCATION, types: ['locality', 'political'], viewport: TORONTO_VIEWPORT },
+    ...torontoNeighbourhoods.map((area) => ({
+      ...area,
+      types: ['neighborhood', 'political'],
+      viewport: {
+        northeast: {
+          lat: area.location.lat + NEIGHBOURHOOD_HALF_SPAN.lat,
+          lng: area.location.lng + NEIGHBOURHOOD_HALF_SPAN.lng,
+        },
+        southwest: {
+          lat: area.location.lat - NEIGHBOURHOOD_HALF_SPAN.lat,
+          lng: area.location.lng - NEIGHBOURHOOD_HALF_SPAN.lng,
+        },
+      },
+    })),
+  ]
+    .filter((area) => area.name.toLowerCase().includes(needle))
+    .map((area) => ({
+      place_id: `mock-area-${area.name.toLowerCase().replace(/[^a-z]+/g, '-')}`,
+      name: area.name,
+      formatted_address: area.name === 'Toronto' ? 'Toronto, ON, Canada' : `${area.name}, Toronto, ON, Canada`,
+      location: { lat: area.location.lat, lng: area.location.lng },
+      types: area.types,
+      viewport: area.viewport,
+      location_type: 'APPROXIMATE' as const,
+    }));
+
+  const places = venues
+    .filter((venue) => matchesQuery(venue, query))
+    .map((venue): LocationSearchResult => ({
+      place_id: venue.id,
+      name: venue.name,
+      formatted_address: venue.address,
+      location: venue.location,
+      types: venue.types,
+      location_type: 'ROOFTOP',
+    }));
+
+  return [...areas, ...places];
+}
+
+function byDistance(a: Restaurant, b: Restaurant): number {
+  return a.distance - b.distance;
+}
+
+export function createMockPlacesProvider(options: MockPlacesOptions = {}): PlacesProvider {
+  const { latencyMs = [0, 0], errorRate = 0, random = Math.random } = options;
+
+  // Wait for the simulated latency, then maybe fail like the real API would
+  const simulateNetwork = async (signal?: AbortSignal): Promise<void> => {
+    throwIfAborted(signal);
+    const [min, max] = latencyMs;
+    const delay = min + random() * Math.max(0, max - min);
+    if (delay > 0) {
+      await abortableDelay(delay, signal);
+    }
+    if (random() < errorRate) {
+      const status = SIMULATED_ERRORS[Math.floor(random() * SIMULATED_ERRORS.length)];
+      throw fromPlacesStatus(status, 'Places API');
+    }
+  };
+
+  return {
+    id: 'mock',
+    label: 'Mock Data',
+
+    async searchNearbyRestaurants(location, radius = 2000, type = 'restaurant', signal) {
+      await simulateNetwork(signal);
+      const venues = await loadVenues();
+      return venues
+        .filter((venue) => matchesType(venue, type))
+        .map((venue) => toRestaurant(venue, location))
+        .filter((restaurant) => restaurant.distance <= radius / 1000)
+        .sort(byDistance)
+        .slice(0, MAX_RESULT_COUNT);
+    },
+
+    async getPlaceDetails(placeId, signal) {
+      await simulateNetwork(signal);
+      const venues = await loadVenues();
+      const venue = venues.find((v) => v.id === placeId);
+      if (!venue) {
+        throw fromPlacesStatus('NOT_FOUND', 'Place Details API');
+      }
+      return toDetails(venue);
+    },
+
+    async searchPlacesByText(query, location, radius, signal) {
+      await simulateNetwork(signal);
+      const venues = await loadVenues();
+      const restaurants = venues
+        .filter((venue) => matchesQuery(venue, query))
+        .map((venue) => toRestaurant(venue, location));
+      const inRange = location
+        ? restaurants.filter((restaurant) => restaurant.distance <= (radius || 50000) / 1000).sort(byDistance)
+        : restaurants.sort((a, b) => b.rating - a.rating);
+      return inRange.slice(0, MAX_RESULT_COUNT);
+    },
+
+    async searchLocationsByText(query, signal) {
+      await simulateNetwork(signal);
+      return (await findLocations(query)).slice(0, 10);
+    },
+
+    async getAutocompletePredictions(input, _options, signal) {
+      await simulateNetwork(signal);
+      const matches = await findLocations(input);
+      return toPredictions(matches.slice(0, MAX_PREDICTIONS), input);
+    },
+
+    async resolvePrediction(placeId, _sessionToken, signal) {
+      await simulateNetwork(signal);
+      const location = (await findLocations('')).find((l) => l.place_id === placeId);
+      if (!location) {
+        throw fromPlacesStatus('NOT_FOUND', 'Place Details API');
+      }
+      return location;
+    },
+
+    // Computed locally, like a real app would without a routing service
+    async getTravelTimes(origin, destinations, mode, signal) {
+      throwIfAborted(signal);
+      return estimateTravelTimes(origin, destinations, mode);
+    },
+
+    // Address of a venue within 75 m, otherwise the closest neighbourhood
+    async reverseGeocode(lat, lng, signal) {
+      await simulateNetwork(signal);
+      const venues = await loadVenues();
+      const nearestVenue = venues
+        .map((venue) => ({ venue, distance: calculateDistance(lat, lng, venue.location.lat, venue.location.lng) }))
+        .sort((a, b) => a.distance - b.distance)[0];
+      if (nearestVenue && nearestVenue.distance <= 0.075) {
+        return nearestVenue.venue.address;
+      }
+
+      const nearestArea = torontoNeighbourhoods
+        .map((area) => ({ area, distance: calculateDistance(lat, lng, area.location.lat, area.location.lng) }))
+        .sort((a, b) => a.distance - b.distance)[0];
+      if (nearestArea && nearestArea.distance <= 2) {
+        return `${nearestArea.area.name}, Toronto, ON`;
+      }
+      return `${lat.toFixed(4)}, ${lng.toFixed(4)}`;
+    },
+
+    getPhotoUrl: getMockPhotoUrl,
+  };
+}
+
+function parseLatency(value?: string): [number, number] {
+  const [min, max] = (value || '150-600').split('-').map(Number);
+  return [min || 0, Number.isFinite(max) ? max : min || 0];
+}
+
+// Defaults can be tuned with VITE_MOCK_LATENCY_MS ("min-max") and VITE_MOCK_ERROR_RATE
+export const mockPlacesProvider = createMockPlacesProvider({
+  latencyMs: parseLatency(import.meta.env.VITE_MOCK_LATENCY_MS),
+  errorRate: Number(import.meta.env.VITE_MOCK_ERROR_RATE) || 0,
+});
@@ -0,0 +1,190 @@
+// Opening hours engine: open/closed status in the venue's own timezone
+import { OpeningHours, OpeningPeriod, OpeningTime, RestaurantDetails } from '@/types';
+
+export type OpeningState = 'open' | 'closing-soon' | 'closed' | 'opening-soon' | 'unknown';
+
+export interface OpeningStatus {
+  state: OpeningState;
+  // When the venue next opens or closes; unset when open around the clock or unknown
+  nextChange?: Date;
+  label: string;
+}
+
+export interface OpeningStatusOptions {
+  closingSoonMinutes?: number;
+  openingSoonMinutes?: number;
+}
+
+// Minutes since Sunday 00:00; `end` may run past the end of the week
+interface Interval {
+  start: number;
+  end: number;
+}
+
+const MINUTES_PER_DAY = 24 * 60;
+const MINUTES_PER_WEEK = 7 * MINUTES_PER_DAY;
+const DAY_NAMES = ['Sun', 'Mon', 'Tue', 'Wed', 'Thu', 'Fri', 'Sat'];
+const WEEKDAY_INDEX: Record<string, number> = { Sun: 0, Mon: 1, Tue: 2, Wed: 3, Thu: 4, Fri: 5, Sat: 6 };
+
+const DEFAULT_CLOSING_SOON_MINUTES = 30;
+const DEFAULT_OPENING_SOON_MINUTES = 60;
+
+const clockFormats = new Map<string, Intl.DateTimeFormat>();
+
+function getClockFormat(timeZone: string): Intl.DateTimeFormat {
+  let format = clockFormats.get(timeZone);
+  if (!format) {
+    format = new Intl.DateTimeFormat('en-US', {
+      timeZone,
+      weekday: 'short',
+      hour: '2-digit',
+      minute: '2-digit',
+      hourCycle: 'h23',
+    });
+    clockFormats.set(timeZone, format);
+  }
+  return format;
+}
+
+// Minutes into the venue's week at `date`. Falls back to the device clock
+// when the venue timezone is unknown.
+function venueWeekMinute(hours: OpeningHours, date: Date): number {
+  if (hours.timeZone) {
+    const parts = getClockFormat(hours.timeZone).formatToParts(date);
+    const get = (type: string) => parts.find((part) => part.type === type)?.value || '';
+    return WEEKDAY_INDEX[get('weekday')] * MINUTES_PER_DAY + Number(get('hour')) * 60 + Number(get('minute'));
+  }
+
+  const offset = hours.utcOffsetMinutes ?? -date.getTimezoneOffset();
+  const local = new Date(date.getTime() + offset * 60 * 1000);
+  return local.getUTCDay() * MINUTES_PER_DAY + local.getUTCHours() * 60 + local.getUTCMinutes();
+}
+
+function toWeekMinute(time: OpeningTime): number {
+  return time.day * MINUTES_PER_DAY + time.hour * 60 + time.minute;
+}
+
+// Overnight periods close "before" they open and get pushed into the next
+// week; overlapping and back-to-back periods (split shifts that touch, or
+// days listed as 00:00-24:00) are merged so closing times are real ones
+function toIntervals(periods: OpeningPeriod[]): Interval[] {
+  const intervals = periods
+    .map(({ open, close }): Interval => {
+      if (!close) return { start: 0, end: MINUTES_PER_WEEK };
+      const start = toWeekMinute(open);
+      const end = toWeekMinute(close);
+      return { start, end: end <= start ? end + MINUTES_PER_WEEK : end };
+    })
+    .sort((a, b) => a.start - b.start);
+
+  const merged: Interval[] = [];
+  for (const interval of intervals) {
+    const previous = merged[merged.length - 1];
+    if (previous && interval.start <= previous.end) {
+      previous.end = Math.max(previous.end, interval.end);
+    } else {
+      merged.push({ ...interval });
+    }
+  }
+
+  // A late Saturday shift can run straight into Sunday's first one
+  const first = merged[0];
+  const last = merged[merged.length - 1];
+  if (merged.length > 1 && last.end >= first.start + MINUTES_PER_WEEK) {
+    last.end = Math.max(last.end, first.end + MINUTES_PER_WEEK);
+    merged.shift();
+  }
+  return merged;
+}
+
+function findOpenInterval(intervals: Interval[], minute: number): Interval | undefined {
+  return intervals.find((interval) =>
+    (minute >= interval.start && minute < interval.end) ||
+    (minute + MINUTES_PER_WEEK >= interval.start && minute + MINUTES_PER_WEEK < interval.end)
+  );
+}
+
+// 17:00 -> "5pm", 17:30 -> "5:30pm"
+function formatClock(weekMinute: number): string {
+  const minutes = ((weekMinute % MINUTES_PER_DAY) + MINUTES_PER_DAY) % MINUTES_PER_DAY;
+  const hour = Math.floor(minutes / 60);
+  const minute = minutes % 60;
+  const suffix = hour < 12 ? 'am' : 'pm';
+  return `${hour % 12 || 12}${minute ? `:${String(minute).padStart(2, '0')}` : ''}${suffix}`;
+}
+
+// Will the venue be open at `date`? Undefined when its hours are unknown.
+export function isOpenAt(hours: OpeningHours | undefined, date: Date): boolean | undefined {
+  if (!hours?.periods.length) {
+    return undefined;
+  }
+  return findOpenInterval(toIntervals(hours.periods), venueWeekMinute(hours, date)) !== undefined;
+}
+
+export function getOpeningStatus(
+  hours: OpeningHours | undefined,
+  now: Date = new Date(),
+  options: OpeningStatusOptions = {}
+): OpeningStatus {
+  const {
+    closingSoonMinutes = DEFAULT_CLOSING_SOON_MINUTES,
+    openingSoonMinutes = DEFAULT_OPENING_SOON_MINUTES,
+  } = options;
+
+  if (!hours?.periods.length) {
+    return { state: 'unknown', label: 'Hours unavailable' };
+  }
+
+  const intervals = toIntervals(hours.periods);
+  const minute = venueWeekMinute(hours, now);
+  const at = (minutesAhead: number) => new Date(now.getTime() + minutesAhead * 60 * 1000);
+
+  const open = findOpenInterval(intervals, minute);
+  if (open) {
+    if (open.end - open.start >= MINUTES_PER_WEEK) {
+      return { state: 'open', label: 'Open 24 hours' };
+    }
+    const untilClose = (open.end - minute) % MINUTES_PER_WEEK;
+    return untilClose <= closingSoonMinutes
+      ? { state: 'closing-soon', nextChange: at(untilClose), label: `Closes in ${untilClose} min` }
+      : { state: 'open', nextChange: at(untilClose), label: `Open until ${formatClock(open.end)}` };
+  }
+
+  const untilOpen = Math.min(
+    ...intervals.map((interval) => (interval.start - minute + MINUTES_PER_WEEK) % MINUTES_PER_WEEK)
+  );
+  const opensAt = minute + untilOpen;
+  if (untilOpen <= openingSoonMinutes) {
+    return { state: 'opening-soon', nextChange: at(untilOpen), label: `Opens in ${untilOpen} min` };
+  }
+  const sameDay = Math.floor(opensAt / MINUTES_PER_DAY) === Math.floor(minute / MINUTES_PER_DAY);
+  const day = DAY_NAMES[Math.floor(opensAt / MINUTES_PER_DAY) % 7];
+  return {
+    state: 'closed',
+    nextChange: at(untilOpen),
+    label: sameDay ? `Opens at ${formatClock(opensAt)}` : `Opens ${day} ${formatClock(opensAt)}`,
+  };
+}
+
+// UTC offset of an IANA timezone at `date`, e.g. -240 for Toronto in summer
+export function getUtcOffsetMinutes(timeZone: string, date: Date = new Date()): number {
+  const parts = new Intl.DateTimeFormat('en-US', {
+    timeZone,
+    year: 'numeric',
+    month: 'numeric',
+    day: 'numeric',
+    hour: 'numeric',
+    minute: 'numeric',
+    hourCycle: 'h23',
+  }).formatToParts(date);
+  const get = (type: string) => Number(parts.find((part) => part.type === type)?.value);
+  const wallClock = Date.UTC(get('year'), get('month') - 1, get('day'), get('hour'), get('minute'));
+  const minute = Math.floor(date.getTime() / (60 * 1000));
+  return Math.round(wallClock / (60 * 1000)) - minute;
+}
+
+// Structured hours from a details record, if the provider sent periods
+export function getDetailsOpeningHours(details: RestaurantDetails): OpeningHours | undefined {
+  const periods = details.opening_hours?.periods;
+  return periods?.length ? { periods, utcOffsetMinutes: details.utc_offset_minutes } : undefined;
+}
@@ -0,0 +1,269 @@
+// OpenStreetMap places provider backed by a local Overpass/GeoJSON dump
+import { DietaryFlag, LocationSearchResult, Restaurant, RestaurantDetails, UserLocation } from '@/types';
+import type { PlacesProvider } from '@/lib/placesProvider';
+import { calculateDistance } from '@/lib/geo';
+import { throwIfAborted } from '@/lib/abort';
+import { PlacesError } from '@/lib/placesErrors';
+import { cuisinesFromNames, getCuisineLabel } from '@/lib/cuisines';
+import { dietaryFromCuisines, mergeDietary } from '@/lib/dietary';
+import { MAX_PREDICTIONS, toPredictions } from '@/lib/placesAutocomplete';
+import { estimateTravelTimes } from '@/lib/travelTime';
+import osmToronto from '@/data/osmToronto.json';
+
+type OsmTags = Record<string, string>;
+
+// Overpass JSON output (`[out:json]` with `out center` for ways)
+interface OverpassElement {
+  type: 'node' | 'way' | 'relation';
+  id: number;
+  lat?: number;
+  lon?: number;
+  center?: { lat: number; lon: number };
+  tags?: OsmTags;
+}
+
+interface OverpassDump {
+  elements: OverpassElement[];
+}
+
+// GeoJSON as produced by osmtogeojson or an Overpass Turbo export
+interface GeoJsonFeature {
+  type: 'Feature';
+  id?: string | number;
+  geometry: { type: string; coordinates: number[] };
+  properties?: OsmTags & { '@id'?: string; tags?: OsmTags };
+}
+
+interface GeoJsonDump {
+  type: 'FeatureCollection';
+  features: GeoJsonFeature[];
+}
+
+export type OsmDump = OverpassDump | GeoJsonDump;
+
+interface OsmPlace {
+  id: string;
+  lat: number;
+  lng: number;
+  tags: OsmTags;
+}
+
+const FOOD_AMENITIES = new Set(['restaurant', 'fast_food', 'cafe', 'bar', 'pub', 'food_court', 'ice_cream']);
+
+const AMENITY_LABELS: Record<string, string> = {
+  restaurant: 'Restaurant',
+  fast_food: 'Fast Food',
+  cafe: 'Cafe',
+  bar: 'Bar',
+  pub: 'Pub',
+  food_court: 'Food Court',
+  ice_cream: 'Ice Cream',
+};
+
+function isGeoJson(dump: OsmDump): dump is GeoJsonDump {
+  return (dump as GeoJsonDump).type === 'FeatureCollection';
+}
+
+// Normalise either dump format into a flat list of tagged points
+export function parseOsmDump(dump: OsmDump): OsmPlace[] {
+  if (isGeoJson(dump)) {
+    return dump.features
+      .filter((feature) => feature.geometry?.type === 'Point')
+      .map((feature) => {
+        const { tags, '@id': osmId, ...rest } = feature.properties || {};
+        return {
+          id: `osm:${osmId || feature.id}`,
+          lng: feature.geometry.coordinates[0],
+          lat: feature.geometry.coordinates[1],
+          tags: { ...rest, ...tags },
+        };
+      })
+      .filter((place) => place.tags.name && FOOD_AMENITIES.has(place.tags.amenity));
+  }
+
+  return dump.elements
+    .map((element) => ({
+      id: `osm:${element.type}/${element.id}`,
+      lat: element.lat ?? element.center?.lat,
+      lng: element.lon ?? element.center?.lon,
+      tags: element.tags || {},
+    }))
+    .filter((place) =>
+      typeof place.lat === 'number' &&
+      typeof place.lng === 'number' &&
+      place.tags.name &&
+      FOOD_AMENITIES.has(place.tags.amenity)
+    );
+}
+
+function formatAddress(tags: OsmTags): string {
+  const street = [tags['addr:housenumber'], tags['addr:street']].filter(Boolean).join(' ');
+  return [street, tags['addr:city']].filter(Boolean).join(', ');
+}
+
+// OSM `cuisine` is a semicolon list of snake_case values, e.g. "ramen;japanese".
+// The amenity (cafe, bar, fast_food, ...) counts as a cuisine too.
+function mapOsmCuisines(tags: OsmTags): string[] {
+  const values = (tags.cuisine || '').split(';').map((value) => value.trim()).filter(Boolean);
+  return cuisinesFromNames([...values, tags.amenity].filter(Boolean));
+}
+
+// Taxonomy label when the cuisine is known, else the raw tag prettified
+function mapOsmCuisine(tags: OsmTags, cuisines: string[]): string {
+  if (cuisines.length) {
+    return getCuisineLabel(cuisines);
+  }
+  const first = tags.cuisine?.split(';')[0]?.trim();
+  if (!first) {
+    return AMENITY_LABELS[tags.amenity] || 'Restaurant';
+  }
+  return first
+    .split('_')
+    .map((word) => word.charAt(0).toUpperCase() + word.slice(1))
+    .join(' ');
+}
+
+// `diet:*` tags; `only` is a fully vegan (etc.) kitchen
+const DIET_TAGS: Record<string, DietaryFlag> = {
+  'diet:vegetarian': 'vegetarian',
+  'diet:vegan': 'vegan',
+  'diet:gluten_free': 'glutenFree',
+  'diet:halal': 'halal',
+  'diet:kosher': 'kosher',
+};
+
+function mapOsmDietary(tags: OsmTags, cuisines: string[]): DietaryFlag[] {
+  const tagged = Object.entries(DIET_TAGS)
+    .filter(([tag]) => tags[tag] === 'yes' || tags[tag] === 'only')
+    .map(([, flag]) => flag);
+  return mergeDietary(tagged, dietaryFromCuisines(cuisines));
+}
+
+function toRestaurant(place: OsmPlace, location?: UserLocation): Restaurant {
+  const cuisines = mapOsmCuisines(place.tags);
+  return {
+    id: place.id,
+    name: place.tags.name,
+    rating: 0, // OSM has no ratings
+    address: formatAddress(place.tags),
+    coordinates: { lat: place.lat, lng: place.lng },
+    cuisine: mapOsmCuisine(place.tags, cuisines),
+    cuisines,
+    priceLevel: 2,
+    image: place.tags.image?.startsWith('http') ? place.tags.image : '/placeholder.svg',
+    distance: location ? calculateDistance(location.lat, location.lng, place.lat, place.lng) : 0,
+    photoAttributions: [],
+    dietary: mapOsmDietary(place.tags, cuisines),
+  };
+}
+
+function matchesQuery(place: OsmPlace, query: string): boolean {
+  const needle = query.trim().toLowerCase();
+  return [place.tags.name, place.tags.cuisine, formatAddress(place.tags)]
+    .some((value) => value?.toLowerCase().includes(needle));
+}
+
+export function createOsmPlacesProvider(dump: OsmDump): PlacesProvider {
+  const places = parseOsmDump(dump);
+
+  const toLocationResult = (place: OsmPlace): LocationSearchResult => ({
+    place_id: place.id,
+    name: place.tags.name,
+    formatted_address: formatAddress(place.tags),
+    location: { lat: place.lat, lng: place.lng },
+    types: [place.tags.amenity],
+    location_type: 'ROOFTOP',
+  });
+
+  const findPlace = (placeId: string): OsmPlace => {
+    const place = places.find((p) => p.id === placeId);
+    if (!place) {
+      throw new PlacesError('ZERO_RESULTS', `OSM place not found: ${placeId}`, { status: 'NOT_FOUND' });
+    }
+    return place;
+  };
+
+  return {
+    id: 'osm',
+    label: 'OpenStreetMap',
+
+    async searchNearbyRestaurants(location, radius = 2000, type, signal) {
+      throwIfAborted(signal);
+      return places
+        .map((place) => toRestaurant(place, location))
+        .filter((restaurant) => restaurant.distance <= radius / 1000);
+    },
+
+    async getPlaceDetails(placeId, signal) {
+      throwIfAborted(signal);
+      const place = findPlace(placeId);
+      const details: RestaurantDetails = {
+        place_id: place.id,
+        name: place.tags.name,
+        formatted_address: formatAddress(place.tags),
+        formatted_phone_number: place.tags.phone || place.tags['contact:phone'],
+        website: place.tags.website || place.tags['contact:website'],
+        rating: 0,
+        photos: [],
+        geometry: { location: { lat: place.lat, lng: place.lng } },
+        serves_vegetarian_food: mapOsmDietary(place.tags, mapOsmCuisines(place.tags)).includes('vegetarian') || undefined,
+      };
+      return details;
+    },
+
+    async searchPlacesByText(query, location, radius, signal) {
+      throwIfAborted(signal);
+      return places
+        .filter((place) => matchesQuery(place, query))
+        .map((place) => toRestaurant(place, location))
+        .filter((restaurant) => !location || !radius || restaurant.distance <= radius / 1000);
+    },
+
+    async searchLocationsByText(query, signal) {
+      throwIfAborted(signal);
+      return places.filter((place) => matchesQuery(place, query)).map(toLocationResult);
+    },
+
+    // Use the address of the closest venue within 100 m, if there is one
+    async reverseGeocode(lat, lng, signal) {
+      throwIfAborted(signal);
+      let nearest: OsmPlace | null = null;
+      let nearestDistance = Infinity;
+      for (const place of places) {
+        const distance = calculateDistance(lat, lng, place.lat, place.lng);
+        if (distance < nearestDistance) {
+          nearest = place;
+          nearestDistance = distance;
+        }
+      }
+      if (nearest && nearestDistance <= 0.1 && formatAddress(nearest.tags)) {
+        return formatAddress(nearest.tags);
+      }
+      return `${lat.toFixed(4)}, ${lng.toFixed(4)}`;
+    },
+
+    // No autocomplete endpoint offline; predictions come from the local dump
+    async getAutocompletePredictions(input, _options, signal) {
+      throwIfAborted(signal);
+      const matches = places.filter((place) => matchesQuery(place, input)).map(toLocationResult);
+      return toPredictions(matches.slice(0, MAX_PREDICTIONS), input);
+    },
+
+    async resolvePrediction(placeId, _sessionToken, signal) {
+      throwIfAborted(signal);
+      return toLocationResult(findPlace(placeId));
+    },
+
+    // No routing data in the dump
+    async getTravelTimes(origin, destinations, mode, signal) {
+      throwIfAborted(signal);
+      return estimateTravelTimes(origin, destinations, mode);
+    },
+
+    getPhotoUrl(photoReference) {
+      return photoReference.startsWith('http') ? photoReference : '/placeholder.svg';
+    },
+  };
+}
+
+export const osmPlacesProvider = createOsmPlacesProvider(osmToronto as OsmDump);
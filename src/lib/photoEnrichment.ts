@@ -0,0 +1,182 @@
+// Photo enrichment scheduler: fills in placeholder images via place details
+import { Restaurant } from '@/types';
+import type { PlacesProvider } from '@/lib/placesProvider';
+import { enhanceRestaurantWithPhotos } from '@/lib/googleMaps';
+import { PlacesAbortError, throwIfAborted, withAbort } from '@/lib/abort';
+
+export interface EnrichmentSchedulerOptions {
+  // Maximum number of place details requests in flight at once
+  concurrency?: number;
+}
+
+interface EnrichmentTask {
+  key: string;
+  placeId: string;
+  run: (signal: AbortSignal) => Promise<Restaurant>;
+  promise: Promise<Restaurant>;
+  resolve: (restaurant: Restaurant) => void;
+  reject: (error: unknown) => void;
+  // Callers still waiting; with none left the task is dropped or aborted
+  waiters: number;
+  running: boolean;
+  controller: AbortController;
+}
+
+export interface EnrichmentScheduler {
+  // Queue a restaurant for enrichment; concurrent calls for the same place
+  // share one request, which is cancelled once every caller has aborted
+  enqueue(restaurant: Restaurant, provider: PlacesProvider, signal?: AbortSignal): Promise<Restaurant>;
+  // Visible places jump ahead of off-screen ones in the queue
+  setVisible(placeId: string, visible: boolean): void;
+  readonly pending: number;
+}
+
+const DEFAULT_CONCURRENCY = 4;
+
+export function needsPhotoEnrichment(restaurant: Restaurant): boolean {
+  return restaurant.image === '/placeholder.svg';
+}
+
+export function createEnrichmentScheduler(options: EnrichmentSchedulerOptions = {}): EnrichmentScheduler {
+  const concurrency = Math.max(1, options.concurrency || DEFAULT_CONCURRENCY);
+  const queue: EnrichmentTask[] = [];
+  const tasks = new Map<string, EnrichmentTask>();
+  const visible = new Set<string>();
+  let running = 0;
+
+  // Take the oldest visible task, or the oldest task if nothing queued is on screen
+  const takeNext = (): EnrichmentTask | undefined => {
+    const visibleIndex = queue.findIndex((task) => visible.has(task.placeId));
+    return queue.splice(visibleIndex === -1 ? 0 : visibleIndex, 1)[0];
+  };
+
+  const pump = () => {
+    while (running < concurrency && queue.length > 0) {
+      const task = takeNext();
+      running++;
+      task.running = true;
+      task.run(task.controller.signal)
+        .then(task.resolve, task.reject)
+        .finally(() => {
+          running--;
+          // A newer task for the same place may have replaced this aborted one
+          if (tasks.get(task.key) === task) {
+            tasks.delete(task.key);
+          }
+          pump();
+        });
+    }
+  };
+
+  // A caller gave up: drop a queued task nobody waits for, or abort its request
+  const release = (task: EnrichmentTask) => {
+    if (tasks.get(task.key) !== task) {
+      return;
+    }
+    task.waiters--;
+    if (task.waiters > 0) {
+      return;
+    }
+    // Forget it right away, so a caller enqueueing the same place starts afresh
+    tasks.delete(task.key);
+    if (task.running) {
+      task.controller.abort();
+      return;
+    }
+    queue.splice(queue.indexOf(task), 1);
+    task.reject(new PlacesAbortError());
+  };
+
+  return {
+    enqueue(restaurant, provider, signal) {
+      if (signal?.aborted) {
+        return Promise.reject(new PlacesAbortError());
+      }
+      const key = `${provider.id}:${restaurant.id}`;
+      let task = tasks.get(key);
+      if (!task) {
+        let resolve: (restaurant: Restaurant) => void;
+        let reject: (error: unknown) => void;
+        const promise = new Promise<Restaurant>((res, rej) => {
+          resolve = res;
+          reject = rej;
+        });
+        // Callers that aborted no longer listen
+        promise.catch(() => undefined);
+        task = {
+          key,
+          placeId: restaurant.id,
+          run: (taskSignal) => enhanceRestaurantWithPhotos(restaurant, provider, taskSignal),
+          promise,
+          resolve,
+          reject,
+          waiters: 0,
+          running: false,
+          controller: new AbortController(),
+        };
+        tasks.set(key, task);
+        queue.push(task);
+      }
+      task.waiters++;
+      pump();
+
+      if (!signal) {
+        return task.promise;
+      }
+      const waiting = task;
+      const onAbort = () => release(waiting);
+      signal.addEventListener('abort', onAbort, { once: true });
+      const stopListening = () => signal.removeEventListener('abort', onAbort);
+      waiting.promise.then(stopListening, stopListening);
+      return withAbort(waiting.promise, signal);
+    },
+
+    setVisible(placeId, isVisible) {
+      if (isVisible) {
+        visible.add(placeId);
+      } else {
+        visible.delete(placeId);
+      }
+    },
+
+    get pending() {
+      return queue.length + running;
+    },
+  };
+}
+
+export const photoEnrichmentScheduler = createEnrichmentScheduler({
+  concurrency: Number(import.meta.env.VITE_PHOTO_ENRICHMENT_CONCURRENCY) || DEFAULT_CONCURRENCY,
+});
+
+// Enrich every placeholder restaurant through the shared scheduler, calling
+// `onEnriched` as each one resolves so the UI can update progressively. It is
+// called even when no photo was found, so callers know the place is done.
+// Aborting stops the callbacks, and cancels shared requests no other caller
+// is waiting for.
+export async function enrichRestaurants(
+  restaurants: Restaurant[],
+  provider: PlacesProvider,
+  onEnriched: (restaurant: Restaurant) => void,
+  signal?: AbortSignal,
+  scheduler: EnrichmentScheduler = photoEnrichmentScheduler
+): Promise<Restaurant[]> {
+  return Promise.all(
+    restaurants.map(async (restaurant) => {
+      if (!needsPhotoEnrichment(restaurant)) {
+        return restaurant;
+      }
+      // Only take the photo: a shared request may have started from another
+      // caller's copy of the restaurant with a different distance
+      const enriched = await scheduler.enqueue(restaurant, provider, signal);
+      throwIfAborted(signal);
+      if (enriched.image === restaurant.image) {
+        onEnriched(restaurant);
+        return restaurant;
+      }
+      const updated = { ...restaurant, image: enriched.image, photoAttributions: enriched.photoAttributions };
+      onEnriched(updated);
+      return updated;
+    })
+  );
+}
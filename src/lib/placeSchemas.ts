@@ -0,0 +1,127 @@
+// Runtime schemas for mapped places records
+import { z } from 'zod';
+import { Restaurant, RestaurantDetails } from '@/types';
+import { reportDiagnostic } from '@/lib/diagnostics';
+
+const coordinatesSchema = z.object({
+  lat: z.number().min(-90).max(90),
+  lng: z.number().min(-180).max(180),
+});
+
+const photoAttributionSchema = z.object({
+  displayName: z.string().optional(),
+  uri: z.string().optional(),
+  photoUri: z.string().optional(),
+});
+
+const openingTimeSchema = z.object({
+  day: z.number().int().min(0).max(6),
+  hour: z.number().int().min(0).max(24),
+  minute: z.number().int().min(0).max(59),
+});
+
+const openingPeriodSchema = z.object({
+  open: openingTimeSchema,
+  close: openingTimeSchema.optional(),
+});
+
+const openingHoursSchema = z.object({
+  periods: z.array(openingPeriodSchema),
+  timeZone: z.string().optional(),
+  utcOffsetMinutes: z.number().int().optional(),
+});
+
+// The app compiles without strictNullChecks, where zod infers every key as
+// optional, so the schemas are pinned to the app interfaces instead
+export const restaurantSchema: z.ZodType<Restaurant> = z.object({
+  id: z.string().min(1),
+  name: z.string().trim().min(1),
+  rating: z.number().min(0).max(5),
+  userRatingCount: z.number().int().nonnegative().optional(),
+  address: z.string(),
+  coordinates: coordinatesSchema,
+  cuisine: z.string().min(1),
+  cuisines: z.array(z.string()),
+  priceLevel: z.number().int().min(0).max(4),
+  image: z.string().min(1),
+  distance: z.number().nonnegative(),
+  photoAttributions: z.array(photoAttributionSchema).optional(),
+  openingHours: openingHoursSchema.optional(),
+  dietary: z.array(z.enum(['vegetarian', 'vegan', 'glutenFree', 'halal', 'kosher'])).optional(),
+}) as z.ZodType<Restaurant>;
+
+export const restaurantDetailsSchema: z.ZodType<RestaurantDetails> = z.object({
+  place_id: z.string().min(1),
+  name: z.string().trim().min(1),
+  formatted_address: z.string(),
+  formatted_phone_number: z.string().optional(),
+  website: z.string().optional(),
+  rating: z.number().min(0).max(5),
+  photos: z.array(z.object({
+    photo_reference: z.string().min(1),
+    width: z.number().nonnegative(),
+    height: z.number().nonnegative(),
+    attributions: z.array(photoAttributionSchema).optional(),
+  })).optional(),
+  opening_hours: z.object({
+    weekday_text: z.array(z.string()).optional(),
+    open_now: z.boolean(),
+    periods: z.array(openingPeriodSchema).optional(),
+  }).optional(),
+  utc_offset_minutes: z.number().int().optional(),
+  user_ratings_total: z.number().int().nonnegative().optional(),
+  editorial_summary: z.string().optional(),
+  price_range: z.object({
+    currency: z.string().min(1),
+    start: z.number().nonnegative().optional(),
+    end: z.number().nonnegative().optional(),
+  }).optional(),
+  business_status: z.enum(['OPERATIONAL', 'CLOSED_TEMPORARILY', 'CLOSED_PERMANENTLY']).optional(),
+  dine_in: z.boolean().optional(),
+  takeout: z.boolean().optional(),
+  delivery: z.boolean().optional(),
+  reservable: z.boolean().optional(),
+  serves_vegetarian_food: z.boolean().optional(),
+  serves_alcohol: z.boolean().optional(),
+  outdoor_seating: z.boolean().optional(),
+  wheelchair_accessible_entrance: z.boolean().optional(),
+  geometry: z.object({
+    location: coordinatesSchema,
+  }),
+}) as z.ZodType<RestaurantDetails>;
+
+function getRecordId(record: unknown): string | undefined {
+  if (typeof record !== 'object' || record === null) {
+    return undefined;
+  }
+  const { id, place_id: placeId } = record as { id?: unknown; place_id?: unknown };
+  const recordId = id ?? placeId;
+  return typeof recordId === 'string' ? recordId : undefined;
+}
+
+// Returns the parsed record, or null after reporting every offending field
+export function validatePlaceRecord<T>(schema: z.ZodType<T>, record: unknown, source: string): T | null {
+  const result = schema.safeParse(record);
+  if (result.success) {
+    return result.data;
+  }
+
+  const recordId = getRecordId(record);
+  result.error.issues.forEach((issue) => {
+    reportDiagnostic({
+      source,
+      message: issue.message,
+      field: issue.path.length > 0 ? issue.path.join('.') : undefined,
+      recordId,
+    });
+  });
+  return null;
+}
+
+// Keeps the valid records of a result list; invalid ones are reported and dropped
+export function validatePlaceRecords<T>(schema: z.ZodType<T>, records: unknown[], source: string): T[] {
+  return records.flatMap((record) => {
+    const parsed = validatePlaceRecord(schema, record, source);
+    return parsed ? [parsed] : [];
+  });
+}
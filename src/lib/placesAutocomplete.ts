@@ -0,0 +1,57 @@
+// Helpers shared by the places autocomplete implementations
+import { LocationSearchResult, PlacePrediction, PredictionMatch } from '@/types';
+
+export const AUTOCOMPLETE_DEBOUNCE_MS = 250;
+// Bias radius around the user's location
+export const AUTOCOMPLETE_BIAS_RADIUS = 50000;
+// Google returns at most five suggestions; offline providers match that
+export const MAX_PREDICTIONS = 5;
+
+// A new id per autocomplete session; providers map it to their own tokens
+export function createSessionToken(): string {
+  if (typeof crypto !== 'undefined' && 'randomUUID' in crypto) {
+    return crypto.randomUUID();
+  }
+  return `${Date.now().toString(36)}-${Math.random().toString(36).slice(2)}`;
+}
+
+// First occurrence of each typed word in `text`, case-insensitive
+export function findMatches(text: string, input: string): PredictionMatch[] {
+  const haystack = text.toLowerCase();
+  return input
+    .toLowerCase()
+    .split(/\s+/)
+    .filter(Boolean)
+    .map((term) => ({ offset: haystack.indexOf(term), length: term.length }))
+    .filter((match) => match.offset >= 0)
+    .sort((a, b) => a.offset - b.offset);
+}
+
+// Predictions for providers without an autocomplete endpoint, built from
+// their location search
+export function toPredictions(results: LocationSearchResult[], input: string): PlacePrediction[] {
+  return results.map((result) => ({
+    place_id: result.place_id,
+    description: result.name === result.formatted_address
+      ? result.name
+      : `${result.name}, ${result.formatted_address}`,
+    main_text: result.name,
+    main_text_matches: findMatches(result.name, input),
+    secondary_text: result.formatted_address !== result.name ? result.formatted_address : undefined,
+    types: result.types,
+  }));
+}
+
+// Split text into plain and matched runs for rendering highlights
+export function splitByMatches(text: string, matches: PredictionMatch[]): Array<{ text: string; matched: boolean }> {
+  const parts: Array<{ text: string; matched: boolean }> = [];
+  let cursor = 0;
+  for (const { offset, length } of matches) {
+    if (offset < cursor) continue;
+    if (offset > cursor) parts.push({ text: text.slice(cursor, offset), matched: false });
+    parts.push({ text: text.slice(offset, offset + length), matched: true });
+    cursor = offset + length;
+  }
+  if (cursor < text.length) parts.push({ text: text.slice(cursor), matched: false });
+  return parts;
+}
@@ -0,0 +1,225 @@
+// Persistent IndexedDB cache for places lookups
+import { Restaurant, RestaurantDetails } from '@/types';
+import type { PlacesProvider } from '@/lib/placesProvider';
+import { calculateDistance } from '@/lib/geo';
+import { encodeGeohash, geohashPrecisionForRadius } from '@/lib/geohash';
+import { withAbort } from '@/lib/abort';
+import { isPlacesError } from '@/lib/placesErrors';
+
+export type PlacesCacheKind = 'nearby' | 'details';
+
+export interface PlacesCacheEntry<T = unknown> {
+  key: string;
+  kind: PlacesCacheKind;
+  provider: string;
+  value: T;
+  storedAt: number;
+}
+
+export type PlacesCacheStatus = 'fresh' | 'stale' | 'expired';
+
+interface CachePolicy {
+  // Served without touching the network
+  freshFor: number;
+  // Served immediately but refreshed in the background until this age
+  maxAge: number;
+}
+
+const MINUTE = 60 * 1000;
+const HOUR = 60 * MINUTE;
+
+// Google Maps Platform terms only allow short-term caching of Places content
+// (place IDs are exempt), so nothing is kept for more than a day
+export const PLACES_CACHE_POLICIES: Record<PlacesCacheKind, CachePolicy> = {
+  nearby: { freshFor: 15 * MINUTE, maxAge: 24 * HOUR },
+  details: { freshFor: HOUR, maxAge: 24 * HOUR },
+};
+
+const DB_NAME = 'newbuzo-places-cache';
+const DB_VERSION = 1;
+const STORE_NAME = 'entries';
+
+let dbPromise: Promise<IDBDatabase | null> | null = null;
+
+// Falls back to memory-only caching when IndexedDB is unavailable
+// (private browsing, old browsers). Least recently used entries are evicted
+// past the cap; IndexedDB, where available, keeps them until they expire.
+const memoryCache = new Map<string, PlacesCacheEntry>();
+const MAX_MEMORY_ENTRIES = 200;
+
+// Map order is insertion order, so re-inserting marks an entry as most recent
+function rememberEntry(entry: PlacesCacheEntry): void {
+  memoryCache.delete(entry.key);
+  memoryCache.set(entry.key, entry);
+  if (memoryCache.size > MAX_MEMORY_ENTRIES) {
+    memoryCache.delete(memoryCache.keys().next().value);
+  }
+}
+
+function openDatabase(): Promise<IDBDatabase | null> {
+  if (!dbPromise) {
+    dbPromise = new Promise((resolve) => {
+      if (typeof indexedDB === 'undefined') {
+        resolve(null);
+        return;
+      }
+      const request = indexedDB.open(DB_NAME, DB_VERSION);
+      request.onupgradeneeded = () => {
+        const store = request.result.createObjectStore(STORE_NAME, { keyPath: 'key' });
+        store.createIndex('kind', 'kind');
+      };
+      request.onsuccess = () => resolve(request.result);
+      request.onerror = () => {
+        console.warn('Places cache unavailable, using memory only:', request.error);
+        resolve(null);
+      };
+    });
+  }
+  return dbPromise;
+}
+
+function runRequest<T>(
+  mode: IDBTransactionMode,
+  operation: (store: IDBObjectStore) => IDBRequest<T>
+): Promise<T | undefined> {
+  return openDatabase().then((db) => {
+    if (!db) return undefined;
+    return new Promise<T | undefined>((resolve, reject) => {
+      const request = operation(db.transaction(STORE_NAME, mode).objectStore(STORE_NAME));
+      request.onsuccess = () => resolve(request.result);
+      request.onerror = () => reject(request.error);
+    });
+  });
+}
+
+async function readEntry<T>(key: string): Promise<PlacesCacheEntry<T> | undefined> {
+  const inMemory = memoryCache.get(key);
+  if (inMemory) {
+    rememberEntry(inMemory);
+    return inMemory as PlacesCacheEntry<T>;
+  }
+  try {
+    const stored = await runRequest<PlacesCacheEntry<T>>('readonly', (store) => store.get(key));
+    if (stored) {
+      rememberEntry(stored);
+    }
+    return stored;
+  } catch (error) {
+    console.warn('Failed to read places cache entry:', error);
+    return undefined;
+  }
+}
+
+async function writeEntry(entry: PlacesCacheEntry): Promise<void> {
+  rememberEntry(entry);
+  try {
+    await runRequest('readwrite', (store) => store.put(entry));
+  } catch (error) {
+    console.warn('Failed to write places cache entry:', error);
+  }
+}
+
+export function getCacheEntryStatus(entry: PlacesCacheEntry, now: number = Date.now()): PlacesCacheStatus {
+  const policy = PLACES_CACHE_POLICIES[entry.kind];
+  const age = now - entry.storedAt;
+  if (age < policy.freshFor) return 'fresh';
+  if (age < policy.maxAge) return 'stale';
+  return 'expired';
+}
+
+// All cached entries, newest first
+export async function listPlacesCacheEntries(): Promise<PlacesCacheEntry[]> {
+  const stored = await runRequest<PlacesCacheEntry[]>('readonly', (store) => store.getAll()).catch(() => undefined);
+  const entries = new Map<string, PlacesCacheEntry>();
+  (stored || []).forEach((entry) => entries.set(entry.key, entry));
+  memoryCache.forEach((entry, key) => entries.set(key, entry));
+  return Array.from(entries.values()).sort((a, b) => b.storedAt - a.storedAt);
+}
+
+export async function clearPlacesCache(kind?: PlacesCacheKind): Promise<void> {
+  const entries = await listPlacesCacheEntries();
+  const keys = entries.filter((entry) => !kind || entry.kind === kind).map((entry) => entry.key);
+  keys.forEach((key) => memoryCache.delete(key));
+  await Promise.all(keys.map((key) => runRequest('readwrite', (store) => store.delete(key)).catch(() => undefined)));
+}
+
+// Drop everything past its max age
+export async function purgeExpiredPlacesCache(): Promise<number> {
+  const now = Date.now();
+  const expired = (await listPlacesCacheEntries()).filter((entry) => getCacheEntryStatus(entry, now) === 'expired');
+  expired.forEach((entry) => memoryCache.delete(entry.key));
+  await Promise.all(expired.map((entry) => runRequest('readwrite', (store) => store.delete(entry.key)).catch(() => undefined)));
+  return expired.length;
+}
+
+const revalidating = new Map<string, Promise<unknown>>();
+
+// Stale-while-revalidate read-through: fresh entries are returned as-is,
+// stale ones are returned and refreshed in the background, expired or missing
+// ones wait for the network. Once the usage budget is spent, expired entries
+// are better than nothing.
+async function cached<T>(
+  key: string,
+  kind: PlacesCacheKind,
+  provider: string,
+  fetcher: () => Promise<T>
+): Promise<T> {
+  const refresh = (): Promise<T> => {
+    const pending = revalidating.get(key);
+    if (pending) return pending as Promise<T>;
+
+    const request = fetcher()
+      .then(async (value) => {
+        await writeEntry({ key, kind, provider, value, storedAt: Date.now() });
+        return value;
+      })
+      .finally(() => revalidating.delete(key));
+    revalidating.set(key, request);
+    return request;
+  };
+
+  const entry = await readEntry<T>(key);
+  const status = entry ? getCacheEntryStatus(entry) : 'expired';
+
+  if (entry && status === 'fresh') {
+    return entry.value;
+  }
+  if (entry && status === 'stale') {
+    refresh().catch((error) => console.warn(`Background refresh failed for ${key}:`, error));
+    return entry.value;
+  }
+  return refresh().catch((error) => {
+    if (entry && isPlacesError(error) && error.code === 'BUDGET_EXCEEDED') {
+      return entry.value;
+    }
+    throw error;
+  });
+}
+
+// Wrap a provider so nearby searches and place details go through the cache.
+// Nearby searches are shared by everyone in the same geohash cell: results are
+// fetched around the first caller's location and distances recomputed per caller.
+// Fetches are shared too, so a caller's signal only abandons its own wait.
+export function withPlacesCache(provider: PlacesProvider): PlacesProvider {
+  return {
+    ...provider,
+
+    async searchNearbyRestaurants(location, radius = 2000, type = 'restaurant', signal) {
+      const cell = encodeGeohash(location.lat, location.lng, geohashPrecisionForRadius(radius));
+      const key = `${provider.id}:nearby:${cell}:${radius}:${type}`;
+      const restaurants = await withAbort(cached<Restaurant[]>(key, 'nearby', provider.id, () =>
+        provider.searchNearbyRestaurants(location, radius, type)
+      ), signal);
+      return restaurants.map((restaurant) => ({
+        ...restaurant,
+        distance: calculateDistance(location.lat, location.lng, restaurant.coordinates.lat, restaurant.coordinates.lng),
+      }));
+    },
+
+    getPlaceDetails(placeId, signal) {
+      return withAbort(cached<RestaurantDetails>(`${provider.id}:details:${placeId}`, 'details', provider.id, () =>
+        provider.getPlaceDetails(placeId)
+      ), signal);
+    },
+  };
+}
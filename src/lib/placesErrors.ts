@@ -0,0 +1,154 @@
+// Typed errors for places lookups
+
+export type PlacesErrorCode =
+  | 'QUOTA_EXCEEDED'
+  | 'REQUEST_DENIED'
+  | 'INVALID_KEY'
+  | 'ZERO_RESULTS'
+  | 'NETWORK'
+  | 'TIMEOUT'
+  | 'CIRCUIT_OPEN'
+  | 'BUDGET_EXCEEDED'
+  | 'UNKNOWN';
+
+// Transient failures worth retrying with backoff
+const RETRYABLE_CODES = new Set<PlacesErrorCode>(['QUOTA_EXCEEDED', 'NETWORK', 'TIMEOUT', 'UNKNOWN']);
+
+export class PlacesError extends Error {
+  readonly code: PlacesErrorCode;
+  // Raw status reported by the backend, e.g. `OVER_QUERY_LIMIT`
+  readonly status?: string;
+  // For CIRCUIT_OPEN: when the endpoint will be tried again
+  readonly retryAt?: number;
+
+  constructor(code: PlacesErrorCode, message: string, options: { status?: string; retryAt?: number; cause?: unknown } = {}) {
+    super(message);
+    this.name = 'PlacesError';
+    this.code = code;
+    this.status = options.status;
+    this.retryAt = options.retryAt;
+    if (options.cause !== undefined) {
+      (this as { cause?: unknown }).cause = options.cause;
+    }
+  }
+
+  get retryable(): boolean {
+    return RETRYABLE_CODES.has(this.code);
+  }
+}
+
+export function isPlacesError(error: unknown): error is PlacesError {
+  return error instanceof PlacesError;
+}
+
+// Legacy service statuses (`PlacesServiceStatus`, `GeocoderStatus`) and
+// Places API (New) gRPC-style codes
+const STATUS_CODES: Record<string, PlacesErrorCode> = {
+  OVER_QUERY_LIMIT: 'QUOTA_EXCEEDED',
+  RESOURCE_EXHAUSTED: 'QUOTA_EXCEEDED',
+  REQUEST_DENIED: 'REQUEST_DENIED',
+  PERMISSION_DENIED: 'REQUEST_DENIED',
+  UNAUTHENTICATED: 'INVALID_KEY',
+  ZERO_RESULTS: 'ZERO_RESULTS',
+  NOT_FOUND: 'ZERO_RESULTS',
+  UNAVAILABLE: 'NETWORK',
+  DEADLINE_EXCEEDED: 'TIMEOUT',
+  UNKNOWN_ERROR: 'UNKNOWN',
+};
+
+// Turn a backend status into a typed error, e.g. `fromPlacesStatus('OVER_QUERY_LIMIT', 'Places API')`
+export function fromPlacesStatus(status: string, api: string): PlacesError {
+  return new PlacesError(STATUS_CODES[status] || 'UNKNOWN', `${api} error: ${status}`, { status });
+}
+
+// Normalise anything thrown by a provider into a PlacesError
+export function toPlacesError(error: unknown): PlacesError {
+  if (isPlacesError(error)) {
+    return error;
+  }
+
+  const message = error instanceof Error ? error.message : String(error);
+  const status = Object.keys(STATUS_CODES).find((candidate) => message.includes(candidate));
+  if (status) {
+    return new PlacesError(STATUS_CODES[status], message, { status, cause: error });
+  }
+  if (/api key/i.test(message)) {
+    return new PlacesError('INVALID_KEY', message, { cause: error });
+  }
+  if (error instanceof TypeError || /network|failed to (load|fetch)/i.test(message) ||
+    (typeof navigator !== 'undefined' && navigator.onLine === false)) {
+    return new PlacesError('NETWORK', message, { cause: error });
+  }
+  return new PlacesError('UNKNOWN', message, { cause: error });
+}
+
+export type PlacesErrorRecovery = 'retry' | 'alternative' | 'none';
+
+export interface PlacesErrorDescription {
+  title: string;
+  description: string;
+  // What the UI should offer: a retry button, the caller's alternative action
+  // (switch to demo data, go back, ...), or nothing
+  recovery: PlacesErrorRecovery;
+}
+
+export function describePlacesError(error: PlacesError, now: number = Date.now()): PlacesErrorDescription {
+  switch (error.code) {
+    case 'QUOTA_EXCEEDED':
+      return {
+        title: 'Too many requests',
+        description: 'The places service is rate limiting us. Wait a moment and try again.',
+        recovery: 'retry',
+      };
+    case 'REQUEST_DENIED':
+      return {
+        title: 'Request denied',
+        description: 'The Google Maps API key is not allowed to use the Places API. Check that it is enabled for this key.',
+        recovery: 'alternative',
+      };
+    case 'INVALID_KEY':
+      return {
+        title: 'Google Maps is not configured',
+        description: 'The API key is missing or invalid. Set VITE_GOOGLE_MAPS_API_KEY to load live places.',
+        recovery: 'alternative',
+      };
+    case 'ZERO_RESULTS':
+      return {
+        title: 'Nothing found',
+        description: 'No places matched this request.',
+        recovery: 'alternative',
+      };
+    case 'NETWORK':
+      return {
+        title: 'You appear to be offline',
+        description: 'Check your connection and try again.',
+        recovery: 'retry',
+      };
+    case 'TIMEOUT':
+      return {
+        title: 'The request timed out',
+        description: 'The places service took too long to respond.',
+        recovery: 'retry',
+      };
+    case 'BUDGET_EXCEEDED':
+      return {
+        title: 'Usage budget reached',
+        description: 'Live Google Maps lookups are paused for now. Cached or demo data is shown where available.',
+        recovery: 'alternative',
+      };
+    case 'CIRCUIT_OPEN': {
+      const seconds = error.retryAt ? Math.max(1, Math.ceil((error.retryAt - now) / 1000)) : null;
+      return {
+        title: 'Places lookups paused',
+        description: `Requests were paused after repeated failures${seconds ? ` and resume in about ${seconds}s` : ''}.`,
+        recovery: 'retry',
+      };
+    }
+    default:
+      return {
+        title: 'Something went wrong',
+        description: error.message || 'The places service returned an unexpected error.',
+        recovery: 'retry',
+      };
+  }
+}
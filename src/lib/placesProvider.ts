@@ -0,0 +1,71 @@
+// Places data source abstraction
+import {
+  LocationSearchResult,
+  PlacePrediction,
+  Restaurant,
+  RestaurantDetails,
+  TravelDestination,
+  TravelMode,
+  TravelTime,
+  UserLocation,
+} from '@/types';
+import { googlePlacesProvider } from '@/lib/googleMaps';
+import { mockPlacesProvider } from '@/lib/mockPlaces';
+import { osmPlacesProvider } from '@/lib/osmPlaces';
+
+export type PlacesProviderId = 'google' | 'mock' | 'osm';
+
+export interface AutocompleteOptions {
+  // Bias predictions towards this area
+  location?: Pick<UserLocation, 'lat' | 'lng'>;
+  radius?: number;
+  // Groups keystrokes and the final `resolvePrediction` into one billing session
+  sessionToken?: string;
+}
+
+// Everything the app needs from a places backend. Implementations must not
+// touch `window.google` unless they are the Google provider. Lookups reject
+// with `PlacesAbortError` once their signal aborts. The nearby search `type`
+// is a generic Google place type such as `restaurant`; cuisines are filtered
+// on the client, since a parent cuisine's type leaves out its children.
+export interface PlacesProvider {
+  id: PlacesProviderId;
+  label: string;
+  searchNearbyRestaurants(location: UserLocation, radius?: number, type?: string, signal?: AbortSignal): Promise<Restaurant[]>;
+  getPlaceDetails(placeId: string, signal?: AbortSignal): Promise<RestaurantDetails>;
+  searchPlacesByText(query: string, location?: UserLocation, radius?: number, signal?: AbortSignal): Promise<Restaurant[]>;
+  searchLocationsByText(query: string, signal?: AbortSignal): Promise<LocationSearchResult[]>;
+  reverseGeocode(lat: number, lng: number, signal?: AbortSignal): Promise<string>;
+  getAutocompletePredictions(input: string, options?: AutocompleteOptions, signal?: AbortSignal): Promise<PlacePrediction[]>;
+  // Look up a picked prediction; this closes its autocomplete session
+  resolvePrediction(placeId: string, sessionToken?: string, signal?: AbortSignal): Promise<LocationSearchResult>;
+  // ETAs keyed by destination id; providers without routing estimate them
+  getTravelTimes(
+    origin: Pick<UserLocation, 'lat' | 'lng'>,
+    destinations: TravelDestination[],
+    mode: TravelMode,
+    signal?: AbortSignal
+  ): Promise<Record<string, TravelTime>>;
+  // Turn a photo reference from `RestaurantDetails.photos` into an image URL
+  getPhotoUrl(photoReference: string, maxWidth?: number, maxHeight?: number): string;
+}
+
+const providers: Record<PlacesProviderId, PlacesProvider> = {
+  google: googlePlacesProvider,
+  mock: mockPlacesProvider,
+  osm: osmPlacesProvider,
+};
+
+export function getPlacesProvider(id: PlacesProviderId): PlacesProvider {
+  return providers[id];
+}
+
+// Pick the provider from VITE_PLACES_PROVIDER, falling back to mock data when
+// no Google Maps API key is configured
+export function resolveDefaultPlacesProvider(): PlacesProvider {
+  const requested = import.meta.env.VITE_PLACES_PROVIDER as PlacesProviderId | undefined;
+  if (requested && providers[requested]) {
+    return providers[requested];
+  }
+  return import.meta.env.VITE_GOOGLE_MAPS_API_KEY ? googlePlacesProvider : mockPlacesProvider;
+}
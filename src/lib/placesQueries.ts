@@ -0,0 +1,177 @@
+// TanStack Query keys and options for places lookups
+import { infiniteQueryOptions, queryOptions, skipToken } from '@tanstack/react-query';
+import { TravelDestination, TravelMode, UserLocation, Viewport } from '@/types';
+import type { PlacesProvider } from '@/lib/placesProvider';
+import { PLACES_CACHE_POLICIES } from '@/lib/placesCache';
+import { isAbortError } from '@/lib/abort';
+import { isPlacesError } from '@/lib/placesErrors';
+import { fetchNearbyPage, getNextNearbyPage } from '@/lib/tiledSearch';
+import { AUTOCOMPLETE_BIAS_RADIUS } from '@/lib/placesAutocomplete';
+
+const MINUTE = 60 * 1000;
+const HOUR = 60 * MINUTE;
+
+const MAX_RETRIES = 2;
+
+// Finished autocomplete sessions are never queried again
+const SESSION_GC_TIME = MINUTE;
+
+type Coordinates = Pick<UserLocation, 'lat' | 'lng'>;
+
+// Keys start with the provider id so demo and live data never mix.
+// Only coordinates go into keys; a resolved address must not start a new search.
+export const placesQueryKeys = {
+  all: (providerId: string) => ['places', providerId] as const,
+  nearby: (providerId: string, location: Coordinates | null, radius: number, type: string) =>
+    ['places', providerId, 'nearby', location?.lat, location?.lng, radius, type] as const,
+  nearbyTiled: (providerId: string, location: Coordinates | null, radius: number, type: string, bounds?: Viewport) =>
+    ['places', providerId, 'nearbyTiled', location?.lat, location?.lng, radius, type, bounds] as const,
+  details: (providerId: string, placeId: string | null) =>
+    ['places', providerId, 'details', placeId] as const,
+  textSearch: (providerId: string, query: string, location?: Coordinates, radius?: number) =>
+    ['places', providerId, 'textSearch', query, location?.lat, location?.lng, radius] as const,
+  locations: (providerId: string, query: string) =>
+    ['places', providerId, 'locations', query] as const,
+  predictions: (providerId: string, sessionToken: string, input: string, location: Coordinates | null) =>
+    ['places', providerId, 'predictions', sessionToken, input, location?.lat, location?.lng] as const,
+  prediction: (providerId: string, sessionToken: string, placeId: string) =>
+    ['places', providerId, 'prediction', sessionToken, placeId] as const,
+  reverseGeocode: (providerId: string, location: Coordinates | null) =>
+    ['places', providerId, 'reverseGeocode', location?.lat, location?.lng] as const,
+  travelTimes: (providerId: string, origin: Coordinates | null, destinationIds: string[], mode: TravelMode) =>
+    ['places', providerId, 'travelTimes', mode, origin?.lat, origin?.lng, destinationIds] as const,
+};
+
+// Cancelled lookups are not failures, so they are never retried. PlacesErrors
+// have already been through `withPlacesResilience`'s backoff.
+function retryPlacesQuery(failureCount: number, error: Error): boolean {
+  return !isAbortError(error) && !isPlacesError(error) && failureCount < MAX_RETRIES;
+}
+
+// Stale times follow the persistent cache so a fresh query never triggers a
+// network request the cache would have answered anyway. Stale queries refetch
+// in the background on mount, window focus and reconnect.
+export const nearbyRestaurantsQuery = (
+  provider: PlacesProvider,
+  location: Coordinates | null,
+  radius: number,
+  type: string
+) =>
+  queryOptions({
+    queryKey: placesQueryKeys.nearby(provider.id, location, radius, type),
+    queryFn: location
+      ? ({ signal }) => provider.searchNearbyRestaurants(location, radius, type, signal)
+      : skipToken,
+    staleTime: PLACES_CACHE_POLICIES.nearby.freshFor,
+    retry: retryPlacesQuery,
+  });
+
+// Each page adds a batch of search tiles; see `tiledSearch.ts`
+export const tiledNearbyRestaurantsQuery = (
+  provider: PlacesProvider,
+  location: Coordinates | null,
+  radius: number,
+  type: string,
+  bounds?: Viewport
+) =>
+  infiniteQueryOptions({
+    queryKey: placesQueryKeys.nearbyTiled(provider.id, location, radius, type, bounds),
+    queryFn: location
+      ? ({ pageParam, signal }) => fetchNearbyPage(provider, location, radius, type, pageParam, signal, bounds)
+      : skipToken,
+    initialPageParam: 0,
+    getNextPageParam: (_lastPage, pages) => getNextNearbyPage(pages),
+    staleTime: PLACES_CACHE_POLICIES.nearby.freshFor,
+    retry: retryPlacesQuery,
+  });
+
+export const placeDetailsQuery = (provider: PlacesProvider, placeId: string | null) =>
+  queryOptions({
+    queryKey: placesQueryKeys.details(provider.id, placeId),
+    queryFn: placeId ? ({ signal }) => provider.getPlaceDetails(placeId, signal) : skipToken,
+    staleTime: PLACES_CACHE_POLICIES.details.freshFor,
+    // Prefetched details have no observer until the detail view opens
+    gcTime: 30 * MINUTE,
+    retry: retryPlacesQuery,
+  });
+
+export const placeTextSearchQuery = (
+  provider: PlacesProvider,
+  query: string,
+  location?: Coordinates,
+  radius?: number
+) =>
+  queryOptions({
+    queryKey: placesQueryKeys.textSearch(provider.id, query, location, radius),
+    queryFn: query
+      ? ({ signal }) => provider.searchPlacesByText(query, location, radius, signal)
+      : skipToken,
+    staleTime: PLACES_CACHE_POLICIES.nearby.freshFor,
+    retry: retryPlacesQuery,
+  });
+
+export const locationSearchQuery = (provider: PlacesProvider, query: string) =>
+  queryOptions({
+    queryKey: placesQueryKeys.locations(provider.id, query),
+    queryFn: query ? ({ signal }) => provider.searchLocationsByText(query, signal) : skipToken,
+    staleTime: HOUR,
+    retry: retryPlacesQuery,
+  });
+
+// Keyed by session token, so a new session never reuses the predictions of a
+// finished one and each session is billed for the requests it makes. Old
+// sessions are never asked for again, so they are dropped soon after.
+export const placePredictionsQuery = (
+  provider: PlacesProvider,
+  input: string,
+  location: Coordinates | null,
+  sessionToken: string
+) =>
+  queryOptions({
+    queryKey: placesQueryKeys.predictions(provider.id, sessionToken, input, location),
+    queryFn: input
+      ? ({ signal }) =>
+          provider.getAutocompletePredictions(
+            input,
+            { location: location ?? undefined, radius: AUTOCOMPLETE_BIAS_RADIUS, sessionToken },
+            signal
+          )
+      : skipToken,
+    staleTime: HOUR,
+    gcTime: SESSION_GC_TIME,
+    retry: retryPlacesQuery,
+  });
+
+export const resolvedPredictionQuery = (provider: PlacesProvider, placeId: string, sessionToken: string) =>
+  queryOptions({
+    queryKey: placesQueryKeys.prediction(provider.id, sessionToken, placeId),
+    queryFn: ({ signal }) => provider.resolvePrediction(placeId, sessionToken, signal),
+    staleTime: HOUR,
+    gcTime: SESSION_GC_TIME,
+    retry: retryPlacesQuery,
+  });
+
+export const reverseGeocodeQuery = (provider: PlacesProvider, location: Coordinates | null) =>
+  queryOptions({
+    queryKey: placesQueryKeys.reverseGeocode(provider.id, location),
+    queryFn: location
+      ? ({ signal }) => provider.reverseGeocode(location.lat, location.lng, signal)
+      : skipToken,
+    staleTime: HOUR,
+    retry: retryPlacesQuery,
+  });
+
+export const travelTimesQuery = (
+  provider: PlacesProvider,
+  origin: Coordinates | null,
+  destinations: TravelDestination[],
+  mode: TravelMode
+) =>
+  queryOptions({
+    queryKey: placesQueryKeys.travelTimes(provider.id, origin, destinations.map((destination) => destination.id), mode),
+    queryFn: origin && destinations.length
+      ? ({ signal }) => provider.getTravelTimes(origin, destinations, mode, signal)
+      : skipToken,
+    staleTime: 15 * MINUTE,
+    retry: retryPlacesQuery,
+  });
@@ -0,0 +1,194 @@
+// Retries, timeouts and circuit breaking for places providers
+import type { PlacesProvider } from '@/lib/placesProvider';
+import { abortableDelay, isAbortError, throwIfAborted, withAbort } from '@/lib/abort';
+import { PlacesError, PlacesErrorCode, toPlacesError } from '@/lib/placesErrors';
+
+export interface RetryOptions {
+  // Attempts after the first one
+  retries?: number;
+  baseDelayMs?: number;
+  maxDelayMs?: number;
+  random?: () => number;
+}
+
+export interface CircuitBreakerOptions {
+  // Consecutive failures before the circuit opens
+  failureThreshold?: number;
+  // How long an open circuit rejects calls before letting one through
+  cooldownMs?: number;
+  now?: () => number;
+}
+
+export interface PlacesResilienceOptions extends RetryOptions, CircuitBreakerOptions {
+  // Per-attempt timeout
+  timeoutMs?: number;
+}
+
+const DEFAULT_RETRIES = 3;
+const DEFAULT_BASE_DELAY_MS = 500;
+const DEFAULT_MAX_DELAY_MS = 8000;
+const DEFAULT_FAILURE_THRESHOLD = 5;
+const DEFAULT_COOLDOWN_MS = 30 * 1000;
+const DEFAULT_TIMEOUT_MS = 15 * 1000;
+
+const HEALTHY_FAILURE_CODES = new Set<PlacesErrorCode>(['ZERO_RESULTS', 'BUDGET_EXCEEDED']);
+
+export function withTimeout<T>(promise: Promise<T>, timeoutMs: number): Promise<T> {
+  return new Promise<T>((resolve, reject) => {
+    const timer = setTimeout(
+      () => reject(new PlacesError('TIMEOUT', `Request timed out after ${timeoutMs}ms`)),
+      timeoutMs
+    );
+    promise.then(resolve, reject).finally(() => clearTimeout(timer));
+  });
+}
+
+// Exponential backoff with full jitter. Only retryable PlacesErrors are retried.
+export async function retryWithBackoff<T>(
+  operation: () => Promise<T>,
+  options: RetryOptions = {},
+  signal?: AbortSignal
+): Promise<T> {
+  const {
+    retries = DEFAULT_RETRIES,
+    baseDelayMs = DEFAULT_BASE_DELAY_MS,
+    maxDelayMs = DEFAULT_MAX_DELAY_MS,
+    random = Math.random,
+  } = options;
+
+  for (let attempt = 0; ; attempt++) {
+    throwIfAborted(signal);
+    try {
+      return await operation();
+    } catch (error) {
+      if (isAbortError(error)) throw error;
+      const placesError = toPlacesError(error);
+      if (!placesError.retryable || attempt >= retries) {
+        throw placesError;
+      }
+      const ceiling = Math.min(maxDelayMs, baseDelayMs * 2 ** attempt);
+      await abortableDelay(random() * ceiling, signal);
+    }
+  }
+}
+
+export type CircuitState = 'closed' | 'open' | 'half-open';
+
+export interface CircuitBreaker {
+  execute<T>(operation: () => Promise<T>): Promise<T>;
+  readonly state: CircuitState;
+}
+
+// Opens after `failureThreshold` consecutive failures and rejects calls with
+// CIRCUIT_OPEN until the cooldown passes; then a single trial call decides
+// whether it closes again
+export function createCircuitBreaker(name: string, options: CircuitBreakerOptions = {}): CircuitBreaker {
+  const {
+    failureThreshold = DEFAULT_FAILURE_THRESHOLD,
+    cooldownMs = DEFAULT_COOLDOWN_MS,
+    now = Date.now,
+  } = options;
+  let failures = 0;
+  let openedAt: number | null = null;
+  let trialInFlight = false;
+
+  const getState = (): CircuitState => {
+    if (openedAt === null) return 'closed';
+    return now() - openedAt >= cooldownMs ? 'half-open' : 'open';
+  };
+
+  return {
+    async execute(operation) {
+      const state = getState();
+      if (state === 'open' || (state === 'half-open' && trialInFlight)) {
+        throw new PlacesError('CIRCUIT_OPEN', `${name} is temporarily unavailable`, {
+          retryAt: (openedAt ?? now()) + cooldownMs,
+        });
+      }
+
+      trialInFlight = state === 'half-open';
+      try {
+        const result = await operation();
+        failures = 0;
+        openedAt = null;
+        return result;
+      } catch (error) {
+        // Aborts, empty results and our own budget guard say nothing about the endpoint's health
+        if (!isAbortError(error) && !HEALTHY_FAILURE_CODES.has(toPlacesError(error).code)) {
+          failures++;
+          if (state === 'half-open' || failures >= failureThreshold) {
+            openedAt = now();
+          }
+        }
+        throw error;
+      } finally {
+        if (state === 'half-open') {
+          trialInFlight = false;
+        }
+      }
+    },
+
+    get state() {
+      return getState();
+    },
+  };
+}
+
+// Wrap a provider so every lookup gets a timeout, retries transient failures
+// with backoff, and stops calling an endpoint that keeps failing. Errors always
+// come out as PlacesErrors.
+export function withPlacesResilience(provider: PlacesProvider, options: PlacesResilienceOptions = {}): PlacesProvider {
+  const { timeoutMs = DEFAULT_TIMEOUT_MS, ...retryAndBreakerOptions } = options;
+  const breakers = new Map<string, CircuitBreaker>();
+
+  const call = <T>(method: string, signal: AbortSignal | undefined, operation: () => Promise<T>): Promise<T> => {
+    const endpoint = `${provider.id}:${method}`;
+    let breaker = breakers.get(endpoint);
+    if (!breaker) {
+      breaker = createCircuitBreaker(endpoint, retryAndBreakerOptions);
+      breakers.set(endpoint, breaker);
+    }
+
+    return breaker.execute(() =>
+      retryWithBackoff(() => withAbort(withTimeout(operation(), timeoutMs), signal), retryAndBreakerOptions, signal)
+    ).catch((error) => {
+      throw isAbortError(error) ? error : toPlacesError(error);
+    });
+  };
+
+  return {
+    ...provider,
+
+    searchNearbyRestaurants(location, radius, type, signal) {
+      return call('searchNearbyRestaurants', signal, () => provider.searchNearbyRestaurants(location, radius, type, signal));
+    },
+
+    getPlaceDetails(placeId, signal) {
+      return call('getPlaceDetails', signal, () => provider.getPlaceDetails(placeId, signal));
+    },
+
+    searchPlacesByText(query, location, radius, signal) {
+      return call('searchPlacesByText', signal, () => provider.searchPlacesByText(query, location, radius, signal));
+    },
+
+    searchLocationsByText(query, signal) {
+      return call('searchLocationsByText', signal, () => provider.searchLocationsByText(query, signal));
+    },
+
+    reverseGeocode(lat, lng, signal) {
+      return call('reverseGeocode', signal, () => provider.reverseGeocode(lat, lng, signal));
+    },
+
+    getAutocompletePredictions(input, options, signal) {
+      return call('getAutocompletePredictions', signal, () => provider.getAutocompletePredictions(input, options, signal));
+    },
+
+    resolvePrediction(placeId, sessionToken, signal) {
+      return call('resolvePrediction', signal, () => provider.resolvePrediction(placeId, sessionToken, signal));
+    },
+
+    getTravelTimes(origin, destinations, mode, signal) {
+      return call('getTravelTimes', signal, () => provider.getTravelTimes(origin, destinations, mode, signal));
+    },
+  };
+}
@@ -0,0 +1,48 @@
+// Polar radar layout: restaurants placed by bearing and distance from the user
+import { Restaurant, UserLocation } from '@/types';
+import { calculateBearing, calculateDistance, toRadians } from '@/lib/geo';
+
+type Coordinates = Pick<UserLocation, 'lat' | 'lng'>;
+
+export interface RadarBlip {
+  restaurant: Restaurant;
+  distanceMeters: number;
+  // Degrees clockwise from true north
+  bearing: number;
+  // Position in the unit circle, y pointing down as on screen; the device's
+  // heading is straight up
+  x: number;
+  y: number;
+}
+
+const RING_COUNT = 4;
+
+// Restaurants within `rangeMeters` of `origin`, rotated so `heading` (degrees
+// from north, null for north-up) points to the top of the scope
+export function getRadarBlips(
+  origin: Coordinates,
+  restaurants: Restaurant[],
+  rangeMeters: number,
+  heading: number | null
+): RadarBlip[] {
+  return restaurants.flatMap((restaurant) => {
+    const { lat, lng } = restaurant.coordinates;
+    const distanceMeters = calculateDistance(origin.lat, origin.lng, lat, lng) * 1000;
+    if (distanceMeters > rangeMeters) {
+      return [];
+    }
+    const bearing = calculateBearing(origin.lat, origin.lng, lat, lng);
+    const angle = toRadians(bearing - (heading ?? 0));
+    const radius = distanceMeters / rangeMeters;
+    return [{ restaurant, distanceMeters, bearing, x: radius * Math.sin(angle), y: -radius * Math.cos(angle) }];
+  });
+}
+
+// Evenly spaced ring distances out to the range, in meters
+export function getRadarRings(rangeMeters: number): number[] {
+  return Array.from({ length: RING_COUNT }, (_, index) => (rangeMeters * (index + 1)) / RING_COUNT);
+}
+
+export function formatRingDistance(meters: number): string {
+  return meters < 1000 ? `${Math.round(meters)} m` : `${Number((meters / 1000).toFixed(1))} km`;
+}
@@ -0,0 +1,107 @@
+// Responsive image URLs: srcset candidates, loading placeholders and photo metering
+import { meterLoadedUrl } from '@/lib/usageMeter';
+
+export const PLACEHOLDER_IMAGE = '/placeholder.svg';
+
+const SRCSET_WIDTHS = [320, 480, 640, 800, 1200];
+const PREVIEW_WIDTH = 24;
+
+type ImageHost = 'places' | 'placesLegacy' | 'placesContent' | 'unsplash';
+
+function getImageHost(src: string): { url: URL; host: ImageHost } | null {
+  let url: URL;
+  try {
+    url = new URL(src);
+  } catch {
+    // Relative paths like the placeholder
+    return null;
+  }
+  if (url.hostname === 'places.googleapis.com' && url.pathname.endsWith('/media')) {
+    return { url, host: 'places' };
+  }
+  if (url.hostname === 'maps.googleapis.com' && url.pathname.endsWith('/place/photo')) {
+    return { url, host: 'placesLegacy' };
+  }
+  // Photo URLs from the Places library's getURI(); billed like the others
+  if (url.hostname.endsWith('.googleusercontent.com') && url.pathname.startsWith('/places/')) {
+    return { url, host: 'placesContent' };
+  }
+  if (url.hostname === 'images.unsplash.com') {
+    return { url, host: 'unsplash' };
+  }
+  return null;
+}
+
+export function isPlacesPhotoUrl(src: string): boolean {
+  const host = getImageHost(src)?.host;
+  return host === 'places' || host === 'placesLegacy' || host === 'placesContent';
+}
+
+// `src` at `width` pixels wide. Null for images we can't resize, such as
+// user photos (data: and blob: URLs) and the placeholder.
+export function resizeImageUrl(src: string, width: number, aspectRatio: number): string | null {
+  const image = getImageHost(src);
+  if (!image) {
+    return null;
+  }
+  const { url, host } = image;
+  const height = Math.round(width / aspectRatio);
+  switch (host) {
+    case 'places':
+      url.searchParams.set('maxWidthPx', String(width));
+      url.searchParams.set('maxHeightPx', String(height));
+      break;
+    case 'placesLegacy':
+      url.searchParams.set('maxwidth', String(width));
+      url.searchParams.set('maxheight', String(height));
+      break;
+    case 'placesContent':
+      // Sized by a path suffix like "=s1600-w800-h600"
+      url.pathname = `${url.pathname.replace(/=[^/=]*$/, '')}=w${width}-h${height}`;
+      break;
+    case 'unsplash':
+      url.searchParams.set('w', String(width));
+      url.searchParams.set('h', String(height));
+      if (!url.searchParams.has('fit')) url.searchParams.set('fit', 'crop');
+      url.searchParams.set('auto', 'format');
+      break;
+  }
+  return url.toString();
+}
+
+// "url 320w, url 480w, ..."; undefined when the image can't be resized
+export function buildSrcSet(src: string, aspectRatio: number, widths: number[] = SRCSET_WIDTHS): string | undefined {
+  const candidates = widths
+    .map((width) => ({ width, url: resizeImageUrl(src, width, aspectRatio) }))
+    .filter((candidate) => candidate.url !== null);
+  return candidates.length ? candidates.map(({ url, width }) => `${url} ${width}w`).join(', ') : undefined;
+}
+
+// Tiny blurred version to show while loading. Only for hosts where it's free;
+// every Places photo load is billed, so those get a colour instead.
+export function getPreviewUrl(src: string, aspectRatio: number): string | undefined {
+  const image = getImageHost(src);
+  if (image?.host !== 'unsplash') {
+    return undefined;
+  }
+  const url = new URL(resizeImageUrl(src, PREVIEW_WIDTH, aspectRatio));
+  url.searchParams.set('blur', '200');
+  return url.toString();
+}
+
+// Muted colour that stays the same for an image across renders
+export function getPlaceholderColor(src: string): string {
+  let hash = 0;
+  for (let i = 0; i < src.length; i++) {
+    hash = (hash * 31 + src.charCodeAt(i)) | 0;
+  }
+  return `hsl(${Math.abs(hash) % 360} 20% 88%)`;
+}
+
+// Places photos are billed by the browser's request, so only the srcset
+// candidate it actually loaded is counted
+export function recordImageLoad(src: string): void {
+  if (isPlacesPhotoUrl(src)) {
+    meterLoadedUrl('photo', src);
+  }
+}
@@ -0,0 +1,73 @@
+// Facet counts for the filter sheet, computed from the current results
+import { DietaryFlag, Restaurant } from '@/types';
+import { getCuisineAncestors } from '@/lib/cuisines';
+import { DIETARY_FLAGS } from '@/lib/dietary';
+import { isOpenAt } from '@/lib/openingHours';
+import {
+  filterRestaurants,
+  FilterRestaurantsOptions,
+  MAX_PRICE_LEVEL,
+  MIN_PRICE_LEVEL,
+  MIN_RATING_OPTIONS,
+  RestaurantFilterKey,
+  RestaurantFilters,
+} from '@/lib/restaurantFilters';
+
+export interface RestaurantFacets {
+  // Taxonomy id → matches, only for cuisines with any; a parent counts its children
+  cuisines: Record<string, number>;
+  // Price level → matches at exactly that level
+  priceLevels: Record<number, number>;
+  // Each MIN_RATING_OPTIONS value → matches at or above it
+  minRatings: Record<number, number>;
+  openNow: number;
+  dietary: Record<DietaryFlag, number>;
+}
+
+const countWhere = (restaurants: Restaurant[], test: (restaurant: Restaurant) => boolean) =>
+  restaurants.reduce((count, restaurant) => count + (test(restaurant) ? 1 : 0), 0);
+
+// Matches for each option under the other active filters. A facet's own
+// filter is left out of its counts, so picking Thai doesn't zero the other
+// cuisines. Diets are combined with AND, so their counts narrow the current
+// results instead. `restaurants` must be the whole result set: a search
+// already narrowed to one cuisine would leave nothing else to count.
+export function getRestaurantFacets(
+  restaurants: Restaurant[],
+  filters: RestaurantFilters,
+  options: FilterRestaurantsOptions
+): RestaurantFacets {
+  const without = (key: RestaurantFilterKey) =>
+    filterRestaurants(restaurants, filters, { ...options, except: [...(options.except ?? []), key] });
+
+  const cuisines: Record<string, number> = {};
+  without('cuisines').forEach((restaurant) => {
+    new Set(restaurant.cuisines.flatMap((id) => [id, ...getCuisineAncestors(id)])).forEach((id) => {
+      cuisines[id] = (cuisines[id] ?? 0) + 1;
+    });
+  });
+
+  const byPrice = without('priceRange');
+  const priceLevels: Record<number, number> = {};
+  for (let level = MIN_PRICE_LEVEL; level <= MAX_PRICE_LEVEL; level++) {
+    priceLevels[level] = countWhere(byPrice, (restaurant) => restaurant.priceLevel === level);
+  }
+
+  const byRating = without('minRating');
+  const minRatings = Object.fromEntries(
+    MIN_RATING_OPTIONS.map((rating) => [rating, countWhere(byRating, (restaurant) => restaurant.rating >= rating)])
+  );
+
+  const filtered = filterRestaurants(restaurants, filters, options);
+  const dietary = Object.fromEntries(
+    DIETARY_FLAGS.map((flag) => [flag, countWhere(filtered, (restaurant) => !!restaurant.dietary?.includes(flag))])
+  ) as Record<DietaryFlag, number>;
+
+  return {
+    cuisines,
+    priceLevels,
+    minRatings,
+    openNow: countWhere(without('openNow'), (restaurant) => isOpenAt(restaurant.openingHours, options.now)),
+    dietary,
+  };
+}
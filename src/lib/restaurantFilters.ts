@@ -0,0 +1,171 @@
+// Restaurant list filters: the matching rules and their URL query form
+import { DietaryFlag, Restaurant } from '@/types';
+import { getCuisine, getCuisineAncestors, matchesCuisine } from '@/lib/cuisines';
+import { isDietaryFlag } from '@/lib/dietary';
+import { isOpenAt } from '@/lib/openingHours';
+
+export interface RestaurantFilters {
+  // Taxonomy ids; a restaurant matches if it falls under any of them
+  cuisines: string[];
+  // Inclusive, from 1 ($) to 4 ($$$$)
+  priceRange: [number, number];
+  // 0 for any rating
+  minRating: number;
+  openNow: boolean;
+  // A restaurant must cater for all of them
+  dietary: DietaryFlag[];
+  // Meters from the user
+  distance: number;
+}
+
+export type RestaurantFilterKey = keyof RestaurantFilters;
+
+export const MIN_PRICE_LEVEL = 1;
+export const MAX_PRICE_LEVEL = 4;
+export const MIN_RATING_OPTIONS = [0, 3.5, 4, 4.5];
+export const MIN_FILTER_DISTANCE = 50;
+export const MAX_FILTER_DISTANCE = 5000;
+export const FILTER_DISTANCE_STEP = 50;
+
+export const DEFAULT_RESTAURANT_FILTERS: RestaurantFilters = {
+  cuisines: [],
+  priceRange: [MIN_PRICE_LEVEL, MAX_PRICE_LEVEL],
+  minRating: 0,
+  openNow: false,
+  dietary: [],
+  distance: 2000,
+};
+
+// Query parameter for each filter, e.g. ?cuisine=thai,ramen&price=1-2&rating=4&open=1&diet=vegan&distance=1500
+const FILTER_PARAMS = {
+  cuisines: 'cuisine',
+  priceRange: 'price',
+  minRating: 'rating',
+  openNow: 'open',
+  dietary: 'diet',
+  distance: 'distance',
+} as const;
+
+const FILTER_KEYS = Object.keys(FILTER_PARAMS) as RestaurantFilterKey[];
+
+const clamp = (value: number, min: number, max: number) => Math.min(Math.max(value, min), max);
+
+const parseList = (value: string | null) => (value ? value.split(',').filter(Boolean) : []);
+
+function parsePriceRange(value: string | null): [number, number] {
+  const [min, max] = (value || '').split('-').map(Number);
+  if (!Number.isInteger(min) || !Number.isInteger(max)) {
+    return DEFAULT_RESTAURANT_FILTERS.priceRange;
+  }
+  const low = clamp(Math.min(min, max), MIN_PRICE_LEVEL, MAX_PRICE_LEVEL);
+  const high = clamp(Math.max(min, max), MIN_PRICE_LEVEL, MAX_PRICE_LEVEL);
+  return [low, high];
+}
+
+function parseDistance(value: string | null): number {
+  const distance = Number(value);
+  if (!value || !Number.isFinite(distance)) {
+    return DEFAULT_RESTAURANT_FILTERS.distance;
+  }
+  const stepped = Math.round(distance / FILTER_DISTANCE_STEP) * FILTER_DISTANCE_STEP;
+  return clamp(stepped, MIN_FILTER_DISTANCE, MAX_FILTER_DISTANCE);
+}
+
+// Unknown cuisines, diets and out-of-range values are dropped, so a
+// hand-edited or stale link still opens
+export function parseRestaurantFilters(params: URLSearchParams): RestaurantFilters {
+  const minRating = Number(params.get(FILTER_PARAMS.minRating));
+  return {
+    cuisines: [...new Set(parseList(params.get(FILTER_PARAMS.cuisines)).filter((id) => getCuisine(id)))],
+    priceRange: parsePriceRange(params.get(FILTER_PARAMS.priceRange)),
+    minRating: MIN_RATING_OPTIONS.includes(minRating) ? minRating : 0,
+    openNow: params.get(FILTER_PARAMS.openNow) === '1',
+    dietary: [...new Set(parseList(params.get(FILTER_PARAMS.dietary)).filter(isDietaryFlag))],
+    distance: parseDistance(params.get(FILTER_PARAMS.distance)),
+  };
+}
+
+// A copy of `params` with the filters written in. Defaults are left out to
+// keep links short, and unrelated parameters are kept.
+export function writeRestaurantFilters(params: URLSearchParams, filters: RestaurantFilters): URLSearchParams {
+  const next = new URLSearchParams(params);
+  const values: Record<RestaurantFilterKey, string> = {
+    cuisines: filters.cuisines.join(','),
+    priceRange: isDefaultPriceRange(filters.priceRange) ? '' : filters.priceRange.join('-'),
+    minRating: filters.minRating > 0 ? String(filters.minRating) : '',
+    openNow: filters.openNow ? '1' : '',
+    dietary: filters.dietary.join(','),
+    distance: filters.distance !== DEFAULT_RESTAURANT_FILTERS.distance ? String(filters.distance) : '',
+  };
+  FILTER_KEYS.forEach((key) => {
+    if (values[key]) {
+      next.set(FILTER_PARAMS[key], values[key]);
+    } else {
+      next.delete(FILTER_PARAMS[key]);
+    }
+  });
+  return next;
+}
+
+function isDefaultPriceRange([min, max]: [number, number]): boolean {
+  return min === MIN_PRICE_LEVEL && max === MAX_PRICE_LEVEL;
+}
+
+// Filters changed from their defaults, for the badge on the filter button
+export function countActiveFilters(filters: RestaurantFilters): number {
+  return [
+    filters.cuisines.length > 0,
+    !isDefaultPriceRange(filters.priceRange),
+    filters.minRating > 0,
+    filters.openNow,
+    filters.dietary.length > 0,
+    filters.distance !== DEFAULT_RESTAURANT_FILTERS.distance,
+  ].filter(Boolean).length;
+}
+
+// Picking a cuisine replaces any broader pick it refines (Japanese → Ramen);
+// unpicking one also drops the narrower picks under it
+export function toggleCuisineFilter(cuisines: string[], id: string): string[] {
+  if (matchesCuisine(cuisines, id)) {
+    return cuisines.filter((cuisine) => !matchesCuisine([cuisine], id));
+  }
+  const ancestors = getCuisineAncestors(id);
+  return [...cuisines.filter((cuisine) => !ancestors.includes(cuisine)), id];
+}
+
+export interface FilterRestaurantsOptions {
+  now: Date;
+  // Filters to leave out, e.g. distance for a searched map area
+  except?: RestaurantFilterKey[];
+}
+
+// One filter's test; true while that filter is off. Unknown hours and diets
+// don't match while their filter is on.
+function matchesFilter(restaurant: Restaurant, filters: RestaurantFilters, key: RestaurantFilterKey, now: Date): boolean {
+  switch (key) {
+    case 'cuisines':
+      return filters.cuisines.length === 0 || filters.cuisines.some((id) => matchesCuisine(restaurant.cuisines, id));
+    case 'priceRange': {
+      const [minPrice, maxPrice] = filters.priceRange;
+      return isDefaultPriceRange(filters.priceRange) || (restaurant.priceLevel >= minPrice && restaurant.priceLevel <= maxPrice);
+    }
+    case 'minRating':
+      return restaurant.rating >= filters.minRating;
+    case 'openNow':
+      return !filters.openNow || isOpenAt(restaurant.openingHours, now);
+    case 'dietary':
+      return filters.dietary.every((flag) => restaurant.dietary?.includes(flag));
+    case 'distance':
+      // restaurant.distance is in km
+      return restaurant.distance <= filters.distance / 1000;
+  }
+}
+
+export function filterRestaurants(
+  restaurants: Restaurant[],
+  filters: RestaurantFilters,
+  { now, except = [] }: FilterRestaurantsOptions
+): Restaurant[] {
+  const keys = FILTER_KEYS.filter((key) => !except.includes(key));
+  return restaurants.filter((restaurant) => keys.every((key) => matchesFilter(restaurant, filters, key, now)));
+}
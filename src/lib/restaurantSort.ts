@@ -0,0 +1,144 @@
+// Sort orders and ranking scores for restaurant lists
+import { Restaurant, TravelMode, TravelTime } from '@/types';
+import { TRAVEL_MODE_LABELS } from '@/lib/travelTime';
+import { isOpenAt } from '@/lib/openingHours';
+import { MAX_PRICE_LEVEL } from '@/lib/restaurantFilters';
+
+export type RestaurantSort = 'bestMatch' | 'distance' | 'travelTime' | 'rating' | 'weightedRating' | 'price';
+
+export const RESTAURANT_SORTS: RestaurantSort[] = ['bestMatch', 'distance', 'travelTime', 'rating', 'weightedRating', 'price'];
+
+// What the user brings to a ranking besides the list itself
+export interface RankingContext {
+  // For "open now" in best match
+  now: Date;
+  travelTimes?: Record<string, TravelTime>;
+  weights?: Partial<BestMatchWeights>;
+}
+
+// Relative importance of each part of the best match score; they needn't add up to 1
+export interface BestMatchWeights {
+  // Review-weighted rating
+  rating: number;
+  // Travel time, or distance where there is none
+  proximity: number;
+  // Cheaper scores higher
+  price: number;
+  openNow: number;
+}
+
+export const DEFAULT_BEST_MATCH_WEIGHTS: BestMatchWeights = {
+  rating: 0.5,
+  proximity: 0.35,
+  price: 0.05,
+  openNow: 0.1,
+};
+
+// Reviews a rating needs before it counts for as much as the list average
+const RATING_PRIOR_WEIGHT = 50;
+
+// "Walk time" follows the preferred travel mode
+export function getSortLabel(sort: RestaurantSort, mode: TravelMode): string {
+  switch (sort) {
+    case 'bestMatch':
+      return 'Best match';
+    case 'travelTime':
+      return `${TRAVEL_MODE_LABELS[mode]} time`;
+    case 'rating':
+      return 'Rating';
+    case 'weightedRating':
+      return 'Top rated';
+    case 'price':
+      return 'Lowest price';
+    default:
+      return 'Distance';
+  }
+}
+
+// Mean rating of the rated restaurants; unrated ones report 0
+export function getAverageRating(restaurants: Restaurant[]): number {
+  const rated = restaurants.filter((restaurant) => restaurant.rating > 0);
+  return rated.length ? rated.reduce((sum, restaurant) => sum + restaurant.rating, 0) / rated.length : 0;
+}
+
+// Bayesian average: the rating pulled towards `priorRating` until it has
+// enough reviews, so 4.9 from 8 reviews doesn't outrank 4.6 from 2,000.
+// Restaurants without a review count are treated as having none.
+export function getWeightedRating(restaurant: Restaurant, priorRating: number): number {
+  const reviews = restaurant.rating > 0 ? restaurant.userRatingCount ?? 0 : 0;
+  return (reviews * restaurant.rating + RATING_PRIOR_WEIGHT * priorRating) / (reviews + RATING_PRIOR_WEIGHT);
+}
+
+// Best match score in [0, 1] for each restaurant id. Each part is scaled to
+// [0, 1] within this list, then blended by the weights.
+export function getBestMatchScores(restaurants: Restaurant[], context: RankingContext): Record<string, number> {
+  const weights = { ...DEFAULT_BEST_MATCH_WEIGHTS, ...context.weights };
+  const travelTimes = context.travelTimes ?? {};
+  const priorRating = getAverageRating(restaurants);
+  const maxDistance = Math.max(...restaurants.map((restaurant) => restaurant.distance), 0);
+  const maxDuration = Math.max(...restaurants.map((restaurant) => travelTimes[restaurant.id]?.durationSeconds ?? 0), 0);
+  const totalWeight = weights.rating + weights.proximity + weights.price + weights.openNow;
+
+  const proximity = (restaurant: Restaurant) => {
+    const duration = travelTimes[restaurant.id]?.durationSeconds;
+    if (duration !== undefined && maxDuration > 0) {
+      return 1 - duration / maxDuration;
+    }
+    return maxDistance > 0 ? 1 - restaurant.distance / maxDistance : 1;
+  };
+
+  // Unknown hours are neither a plus nor a minus
+  const openNow = (restaurant: Restaurant) => {
+    if (!restaurant.openingHours) {
+      return 0.5;
+    }
+    return isOpenAt(restaurant.openingHours, context.now) ? 1 : 0;
+  };
+
+  return Object.fromEntries(
+    restaurants.map((restaurant) => {
+      const score =
+        weights.rating * (getWeightedRating(restaurant, priorRating) / 5) +
+        weights.proximity * proximity(restaurant) +
+        weights.price * (1 - restaurant.priceLevel / MAX_PRICE_LEVEL) +
+        weights.openNow * openNow(restaurant);
+      return [restaurant.id, totalWeight > 0 ? score / totalWeight : 0];
+    })
+  );
+}
+
+// Returns a new array; ties and missing travel times fall back to distance
+export function sortRestaurants(
+  restaurants: Restaurant[],
+  sort: RestaurantSort,
+  context: RankingContext
+): Restaurant[] {
+  const travelTimes = context.travelTimes ?? {};
+  const byDistance = (a: Restaurant, b: Restaurant) => a.distance - b.distance;
+  const byScore = (scores: Record<string, number>) => (a: Restaurant, b: Restaurant) =>
+    scores[b.id] - scores[a.id] || byDistance(a, b);
+
+  switch (sort) {
+    case 'bestMatch':
+      return [...restaurants].sort(byScore(getBestMatchScores(restaurants, context)));
+    case 'weightedRating': {
+      const priorRating = getAverageRating(restaurants);
+      const scores = Object.fromEntries(
+        restaurants.map((restaurant) => [restaurant.id, getWeightedRating(restaurant, priorRating)])
+      );
+      return [...restaurants].sort(byScore(scores));
+    }
+    case 'travelTime':
+      return [...restaurants].sort((a, b) =>
+        (travelTimes[a.id]?.durationSeconds ?? Infinity) - (travelTimes[b.id]?.durationSeconds ?? Infinity) ||
+        byDistance(a, b)
+      );
+    case 'rating':
+      return [...restaurants].sort((a, b) => b.rating - a.rating || byDistance(a, b));
+    case 'price':
+      // Cheapest first
+      return [...restaurants].sort((a, b) => a.priceLevel - b.priceLevel || byDistance(a, b));
+    default:
+      return [...restaurants].sort(byDistance);
+  }
+}
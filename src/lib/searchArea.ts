@@ -0,0 +1,104 @@
+// Nearby search area for a picked location, sized from its geocoded viewport
+import { LocationSearchResult, UserLocation, Viewport } from '@/types';
+import { calculateDistance } from '@/lib/geo';
+
+type Coordinates = Pick<UserLocation, 'lat' | 'lng'>;
+
+export interface SearchArea {
+  center: Coordinates;
+  radius: number;
+  // Results outside this rectangle are dropped; unset for a plain circle
+  bounds?: Viewport;
+}
+
+export const DEFAULT_SEARCH_RADIUS = 2000;
+// Walkable minimum around a single address
+const MIN_SEARCH_RADIUS = 750;
+// Largest radius the Places API accepts
+const MAX_SEARCH_RADIUS = 50000;
+// Distance filters round up to this, so nearby settings share a cached search
+const DISTANCE_SEARCH_STEP = 500;
+
+// Radius by the most specific place type when there is no viewport
+const TYPE_RADII: Array<[string, number]> = [
+  ['street_address', MIN_SEARCH_RADIUS],
+  ['premise', MIN_SEARCH_RADIUS],
+  ['establishment', MIN_SEARCH_RADIUS],
+  ['route', 1000],
+  ['neighborhood', 1500],
+  ['postal_code', 1500],
+  ['sublocality', 3000],
+  ['locality', 10000],
+  ['administrative_area_level_2', 25000],
+];
+
+export function isWithinBounds(point: Coordinates, bounds: Viewport): boolean {
+  const { northeast, southwest } = bounds;
+  if (point.lat < southwest.lat || point.lat > northeast.lat) {
+    return false;
+  }
+  // Viewports that cross the antimeridian have west > east
+  return southwest.lng <= northeast.lng
+    ? point.lng >= southwest.lng && point.lng <= northeast.lng
+    : point.lng >= southwest.lng || point.lng <= northeast.lng;
+}
+
+// Circle through the viewport corner farthest from `center`, in meters
+function getCoveringRadius(center: Coordinates, { northeast, southwest }: Viewport): number {
+  const corners = [
+    northeast,
+    southwest,
+    { lat: northeast.lat, lng: southwest.lng },
+    { lat: southwest.lat, lng: northeast.lng },
+  ];
+  return Math.max(...corners.map((corner) => calculateDistance(center.lat, center.lng, corner.lat, corner.lng))) * 1000;
+}
+
+function getViewportCenter({ northeast, southwest }: Viewport): Coordinates {
+  // Viewports that cross the antimeridian have west > east
+  const east = southwest.lng <= northeast.lng ? northeast.lng : northeast.lng + 360;
+  const lng = (southwest.lng + east) / 2;
+  return { lat: (northeast.lat + southwest.lat) / 2, lng: lng > 180 ? lng - 360 : lng };
+}
+
+// Radius to search for a distance filter. Each search tile returns at most 20
+// places ranked across the whole circle, so searching wider than the filter
+// would leave few of them inside it.
+export function getDistanceSearchRadius(distance: number): number {
+  return Math.min(Math.ceil(distance / DISTANCE_SEARCH_STEP) * DISTANCE_SEARCH_STEP, MAX_SEARCH_RADIUS);
+}
+
+// Everything visible in a map viewport, e.g. for "Search this area"
+export function getViewportSearchArea(viewport: Viewport): SearchArea {
+  const center = getViewportCenter(viewport);
+  const radius = Math.round(getCoveringRadius(center, viewport));
+  return {
+    center,
+    radius: Math.min(Math.max(radius, MIN_SEARCH_RADIUS), MAX_SEARCH_RADIUS),
+    bounds: viewport,
+  };
+}
+
+// Cities and neighbourhoods are searched edge to edge and clipped to their
+// viewport; addresses get a walkable circle around the door
+export function getSearchArea(result: LocationSearchResult): SearchArea {
+  const center = { lat: result.location.lat, lng: result.location.lng };
+
+  if (result.viewport) {
+    const radius = getCoveringRadius(center, result.viewport);
+    if (radius > MIN_SEARCH_RADIUS) {
+      return {
+        center,
+        radius: Math.min(Math.round(radius), MAX_SEARCH_RADIUS),
+        bounds: result.viewport,
+      };
+    }
+    return { center, radius: MIN_SEARCH_RADIUS };
+  }
+
+  if (result.location_type === 'ROOFTOP' || result.location_type === 'RANGE_INTERPOLATED') {
+    return { center, radius: MIN_SEARCH_RADIUS };
+  }
+  const match = TYPE_RADII.find(([type]) => result.types.includes(type));
+  return { center, radius: match ? match[1] : DEFAULT_SEARCH_RADIUS };
+}
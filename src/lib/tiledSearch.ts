@@ -0,0 +1,164 @@
+// Grid-tiled nearby search for areas with more places than one request returns
+import { Restaurant, UserLocation, Viewport } from '@/types';
+import type { PlacesProvider } from '@/lib/placesProvider';
+import { calculateDistance } from '@/lib/geo';
+import { isWithinBounds } from '@/lib/searchArea';
+
+type Coordinates = Pick<UserLocation, 'lat' | 'lng'>;
+
+export interface SearchTile {
+  center: Coordinates;
+  radius: number;
+}
+
+export interface NearbyPage {
+  restaurants: Restaurant[];
+  // Some request in this page hit the per-request result cap
+  saturated: boolean;
+  // Tiles searched so far, including this page
+  tilesSearched: number;
+  totalTiles: number;
+}
+
+// `maxResultCount` of a single Nearby Search request
+export const NEARBY_RESULT_CAP = 20;
+
+const METERS_PER_DEGREE = 111320;
+// Tiles are a third of the search radius, which covers the circle in ~20 tiles
+const TILE_RADIUS_RATIO = 1 / 3;
+const MIN_TILE_RADIUS = 250;
+const TILES_PER_PAGE = 4;
+// A tile page adding fewer new places than this means the outer rings are sparse
+const MIN_NEW_PLACES_PER_PAGE = 3;
+
+export function getTileRadius(radius: number): number {
+  return Math.max(MIN_TILE_RADIUS, Math.round(radius * TILE_RADIUS_RATIO));
+}
+
+// Cover the search circle with a square grid of sub-circles, nearest first.
+// Grid spacing is `tileRadius * √2` so each tile's circle covers its grid square.
+// With `bounds`, squares entirely outside the rectangle are skipped too.
+export function computeSearchTiles(
+  center: Coordinates,
+  radius: number,
+  tileRadius = getTileRadius(radius),
+  bounds?: Viewport
+): SearchTile[] {
+  const spacing = tileRadius * Math.SQRT2;
+  const steps = Math.ceil(radius / spacing);
+  const metersPerLngDegree = METERS_PER_DEGREE * Math.cos(center.lat * (Math.PI / 180));
+  const tiles: Array<SearchTile & { offset: number }> = [];
+
+  for (let x = -steps; x <= steps; x++) {
+    for (let y = -steps; y <= steps; y++) {
+      const dx = x * spacing;
+      const dy = y * spacing;
+      // Skip grid squares that lie entirely outside the search circle
+      const nearestX = Math.max(Math.abs(dx) - spacing / 2, 0);
+      const nearestY = Math.max(Math.abs(dy) - spacing / 2, 0);
+      if (Math.hypot(nearestX, nearestY) >= radius) continue;
+
+      const tileCenter = { lat: center.lat + dy / METERS_PER_DEGREE, lng: center.lng + dx / metersPerLngDegree };
+      if (bounds && !squareTouchesBounds(tileCenter, spacing / 2, metersPerLngDegree, bounds)) continue;
+
+      tiles.push({ center: tileCenter, radius: tileRadius, offset: Math.hypot(dx, dy) });
+    }
+  }
+
+  return tiles.sort((a, b) => a.offset - b.offset).map(({ center, radius }) => ({ center, radius }));
+}
+
+function squareTouchesBounds(center: Coordinates, halfSide: number, metersPerLngDegree: number, bounds: Viewport): boolean {
+  const halfLat = halfSide / METERS_PER_DEGREE;
+  const halfLng = halfSide / metersPerLngDegree;
+  const { northeast, southwest } = bounds;
+  if (center.lat - halfLat > northeast.lat || center.lat + halfLat < southwest.lat) {
+    return false;
+  }
+  // Antimeridian-crossing viewports are rare enough to always keep
+  return southwest.lng > northeast.lng ||
+    (center.lng - halfLng <= northeast.lng && center.lng + halfLng >= southwest.lng);
+}
+
+// Results are requested around a tile center; distances are re-measured from
+// the real origin and anything outside the search area is dropped
+function withinSearch(restaurants: Restaurant[], location: Coordinates, radius: number, bounds?: Viewport): Restaurant[] {
+  return restaurants
+    .map((restaurant) => ({
+      ...restaurant,
+      distance: calculateDistance(location.lat, location.lng, restaurant.coordinates.lat, restaurant.coordinates.lng),
+    }))
+    .filter((restaurant) => restaurant.distance <= radius / 1000)
+    .filter((restaurant) => !bounds || isWithinBounds(restaurant.coordinates, bounds));
+}
+
+// Page 0 is the plain whole-circle search. Every later page searches the next
+// `TILES_PER_PAGE` tiles, so results grow outwards from the center.
+export async function fetchNearbyPage(
+  provider: PlacesProvider,
+  location: Coordinates,
+  radius: number,
+  type: string,
+  page: number,
+  signal?: AbortSignal,
+  bounds?: Viewport
+): Promise<NearbyPage> {
+  const tiles = computeSearchTiles(location, radius, getTileRadius(radius), bounds);
+
+  if (page === 0) {
+    const restaurants = await provider.searchNearbyRestaurants(location, radius, type, signal);
+    return {
+      restaurants: bounds ? withinSearch(restaurants, location, radius, bounds) : restaurants,
+      saturated: restaurants.length >= NEARBY_RESULT_CAP,
+      tilesSearched: 0,
+      totalTiles: tiles.length,
+    };
+  }
+
+  const start = (page - 1) * TILES_PER_PAGE;
+  const batch = tiles.slice(start, start + TILES_PER_PAGE);
+  const results = await Promise.all(
+    batch.map((tile) => provider.searchNearbyRestaurants(tile.center, tile.radius, type, signal))
+  );
+
+  return {
+    restaurants: withinSearch(results.flat(), location, radius, bounds),
+    saturated: results.some((restaurants) => restaurants.length >= NEARBY_RESULT_CAP),
+    tilesSearched: start + batch.length,
+    totalTiles: tiles.length,
+  };
+}
+
+// Keep the first copy of each place; nearer tiles come first
+export function mergeNearbyPages(pages: NearbyPage[]): Restaurant[] {
+  const seen = new Set<string>();
+  const merged: Restaurant[] = [];
+  for (const page of pages) {
+    for (const restaurant of page.restaurants) {
+      if (!seen.has(restaurant.id)) {
+        seen.add(restaurant.id);
+        merged.push(restaurant);
+      }
+    }
+  }
+  return merged.sort((a, b) => a.distance - b.distance);
+}
+
+// Tiling only starts when the whole-circle search was capped, and stops once
+// every tile is searched or a page of tiles turns up next to nothing new
+export function getNextNearbyPage(pages: NearbyPage[]): number | undefined {
+  const last = pages[pages.length - 1];
+  if (!last || last.tilesSearched >= last.totalTiles) {
+    return undefined;
+  }
+  if (pages.length === 1) {
+    return last.saturated ? 1 : undefined;
+  }
+
+  const earlier = new Set(pages.slice(0, -1).flatMap((page) => page.restaurants.map((restaurant) => restaurant.id)));
+  const added = new Set(last.restaurants.map((restaurant) => restaurant.id).filter((id) => !earlier.has(id))).size;
+  if (!last.saturated && added < MIN_NEW_PLACES_PER_PAGE) {
+    return undefined;
+  }
+  return pages.length;
+}
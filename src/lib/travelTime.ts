@@ -0,0 +1,98 @@
+// Travel-time estimates and the user's preferred travel mode
+import { TravelDestination, TravelMode, TravelTime, UserLocation } from '@/types';
+import { calculateDistance } from '@/lib/geo';
+
+type Coordinates = Pick<UserLocation, 'lat' | 'lng'>;
+
+export const TRAVEL_MODES: TravelMode[] = ['walk', 'transit', 'drive'];
+
+export const TRAVEL_MODE_LABELS: Record<TravelMode, string> = {
+  walk: 'Walk',
+  transit: 'Transit',
+  drive: 'Drive',
+};
+
+// Typical city speeds in km/h, door to door
+const MODE_SPEEDS_KMH: Record<TravelMode, number> = {
+  walk: 4.8,
+  transit: 18,
+  drive: 28,
+};
+
+// Minutes lost before moving: waiting for a vehicle, finding parking
+const MODE_OVERHEAD_MINUTES: Record<TravelMode, number> = {
+  walk: 0,
+  transit: 6,
+  drive: 4,
+};
+
+// Streets are longer than the straight line between two points
+const DETOUR_FACTOR = 1.3;
+
+const DEFAULT_TRAVEL_MODE: TravelMode = 'walk';
+const STORAGE_KEY = 'newbuzo-travel-mode';
+
+// Offline ETA from straight-line distance. Transit is never slower than
+// walking, since a router would just tell you to walk.
+export function estimateTravelTime(origin: Coordinates, destination: Coordinates, mode: TravelMode): TravelTime {
+  const distanceKm = calculateDistance(origin.lat, origin.lng, destination.lat, destination.lng) * DETOUR_FACTOR;
+  const minutesBy = (m: TravelMode) => (distanceKm / MODE_SPEEDS_KMH[m]) * 60 + MODE_OVERHEAD_MINUTES[m];
+  const minutes = mode === 'transit' ? Math.min(minutesBy('transit'), minutesBy('walk')) : minutesBy(mode);
+  return {
+    mode,
+    durationSeconds: Math.round(minutes * 60),
+    distanceMeters: Math.round(distanceKm * 1000),
+    estimated: true,
+  };
+}
+
+export function estimateTravelTimes(
+  origin: Coordinates,
+  destinations: TravelDestination[],
+  mode: TravelMode
+): Record<string, TravelTime> {
+  return Object.fromEntries(
+    destinations.map((destination) => [destination.id, estimateTravelTime(origin, destination, mode)])
+  );
+}
+
+// "4 min", "1 h 5 min"
+export function formatTravelTime(travelTime: TravelTime): string {
+  const minutes = Math.max(1, Math.round(travelTime.durationSeconds / 60));
+  if (minutes < 60) return `${minutes} min`;
+  const rest = minutes % 60;
+  return rest ? `${Math.floor(minutes / 60)} h ${rest} min` : `${minutes / 60} h`;
+}
+
+function loadPreferredTravelMode(): TravelMode {
+  try {
+    const stored = localStorage.getItem(STORAGE_KEY) as TravelMode | null;
+    return stored && TRAVEL_MODES.includes(stored) ? stored : DEFAULT_TRAVEL_MODE;
+  } catch {
+    return DEFAULT_TRAVEL_MODE;
+  }
+}
+
+let preferredMode = loadPreferredTravelMode();
+const listeners = new Set<(mode: TravelMode) => void>();
+
+export function getPreferredTravelMode(): TravelMode {
+  return preferredMode;
+}
+
+export function setPreferredTravelMode(mode: TravelMode): void {
+  preferredMode = mode;
+  try {
+    localStorage.setItem(STORAGE_KEY, mode);
+  } catch {
+    // Still applies for this session
+  }
+  listeners.forEach((listener) => listener(mode));
+}
+
+export function subscribeTravelMode(listener: (mode: TravelMode) => void): () => void {
+  listeners.add(listener);
+  return () => {
+    listeners.delete(listener);
+  };
+}
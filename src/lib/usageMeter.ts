@@ -0,0 +1,288 @@
+// Google Maps Platform usage metering and budget guard
+import type { PlacesProvider } from '@/lib/placesProvider';
+import { PlacesError, isPlacesError } from '@/lib/placesErrors';
+import { reportDiagnostic } from '@/lib/diagnostics';
+
+export type MapsSku =
+  | 'nearbySearch'
+  | 'placeDetails'
+  | 'textSearch'
+  | 'autocomplete'
+  | 'distanceMatrix'
+  | 'photo'
+  | 'geocoding'
+  | 'staticMap'
+  | 'dynamicMap';
+
+export const MAPS_SKUS: MapsSku[] = [
+  'nearbySearch',
+  'placeDetails',
+  'textSearch',
+  'autocomplete',
+  'distanceMatrix',
+  'photo',
+  'geocoding',
+  'staticMap',
+  'dynamicMap',
+];
+
+export const SKU_LABELS: Record<MapsSku, string> = {
+  nearbySearch: 'Nearby Search',
+  placeDetails: 'Place Details',
+  textSearch: 'Text Search',
+  autocomplete: 'Autocomplete',
+  distanceMatrix: 'Distance Matrix',
+  photo: 'Place Photo',
+  geocoding: 'Geocoding',
+  staticMap: 'Static Map',
+  dynamicMap: 'Dynamic Map',
+};
+
+// Approximate list prices in USD per 1,000 requests, ignoring the monthly
+// free tier. Good enough to spot a runaway session, not for invoicing.
+export const SKU_PRICES_PER_1000: Record<MapsSku, number> = {
+  nearbySearch: 32,
+  placeDetails: 17,
+  textSearch: 32,
+  autocomplete: 2.83,
+  // Per origin-destination element rather than per request
+  distanceMatrix: 5,
+  photo: 7,
+  geocoding: 5,
+  staticMap: 2,
+  // Per map load
+  dynamicMap: 7,
+};
+
+export type UsageCounts = Record<MapsSku, number>;
+
+export interface UsageBudgets {
+  // Unset means unlimited
+  dailyUsd?: number;
+  sessionUsd?: number;
+}
+
+export interface UsageSnapshot {
+  date: string;
+  session: UsageCounts;
+  daily: UsageCounts;
+  sessionCost: number;
+  dailyCost: number;
+  budgets: UsageBudgets;
+  overBudget: boolean;
+}
+
+export type UsageListener = (snapshot: UsageSnapshot) => void;
+
+const STORAGE_KEY = 'newbuzo-maps-usage';
+
+function emptyCounts(): UsageCounts {
+  return { nearbySearch: 0, placeDetails: 0, textSearch: 0, autocomplete: 0, distanceMatrix: 0, photo: 0, geocoding: 0, staticMap: 0, dynamicMap: 0 };
+}
+
+function today(): string {
+  const now = new Date();
+  return `${now.getFullYear()}-${String(now.getMonth() + 1).padStart(2, '0')}-${String(now.getDate()).padStart(2, '0')}`;
+}
+
+function parseBudget(value?: string): number | undefined {
+  const budget = Number(value);
+  return value && Number.isFinite(budget) && budget >= 0 ? budget : undefined;
+}
+
+const budgets: UsageBudgets = {
+  dailyUsd: parseBudget(import.meta.env.VITE_MAPS_DAILY_BUDGET_USD),
+  sessionUsd: parseBudget(import.meta.env.VITE_MAPS_SESSION_BUDGET_USD),
+};
+
+let session = emptyCounts();
+let daily = loadDaily();
+// Photo and static map URLs are counted once per session; the browser caches repeats
+const meteredUrls = new Set<string>();
+const listeners = new Set<UsageListener>();
+
+function loadDaily(): { date: string; counts: UsageCounts } {
+  try {
+    const stored = JSON.parse(localStorage.getItem(STORAGE_KEY) || 'null');
+    if (stored?.date === today()) {
+      return { date: stored.date, counts: { ...emptyCounts(), ...stored.counts } };
+    }
+  } catch {
+    // Storage unavailable or corrupt: start a fresh day
+  }
+  return { date: today(), counts: emptyCounts() };
+}
+
+function saveDaily(): void {
+  try {
+    localStorage.setItem(STORAGE_KEY, JSON.stringify(daily));
+  } catch {
+    // Metering still works for this session
+  }
+}
+
+export function estimateCost(counts: UsageCounts): number {
+  return MAPS_SKUS.reduce((total, sku) => total + (counts[sku] * SKU_PRICES_PER_1000[sku]) / 1000, 0);
+}
+
+export function getUsageSnapshot(): UsageSnapshot {
+  if (daily.date !== today()) {
+    daily = { date: today(), counts: emptyCounts() };
+  }
+  const sessionCost = estimateCost(session);
+  const dailyCost = estimateCost(daily.counts);
+  return {
+    date: daily.date,
+    session: { ...session },
+    daily: { ...daily.counts },
+    sessionCost,
+    dailyCost,
+    budgets: { ...budgets },
+    overBudget:
+      (budgets.sessionUsd !== undefined && sessionCost >= budgets.sessionUsd) ||
+      (budgets.dailyUsd !== undefined && dailyCost >= budgets.dailyUsd),
+  };
+}
+
+export function isOverBudget(): boolean {
+  return getUsageSnapshot().overBudget;
+}
+
+function record(sku: MapsSku): void {
+  const snapshot = getUsageSnapshot();
+  session[sku]++;
+  daily.counts[sku]++;
+  saveDaily();
+
+  const updated = getUsageSnapshot();
+  if (!snapshot.overBudget && updated.overBudget) {
+    reportDiagnostic({ source: 'usageMeter', message: 'Google Maps budget reached; serving cached or demo data' });
+  }
+  listeners.forEach((listener) => listener(updated));
+}
+
+// Count a billable request, or throw BUDGET_EXCEEDED instead of making it
+export function meterRequest(sku: MapsSku): void {
+  if (isOverBudget()) {
+    throw new PlacesError('BUDGET_EXCEEDED', `${SKU_LABELS[sku]} skipped: Google Maps budget reached`);
+  }
+  record(sku);
+}
+
+// Count a billable URL the first time it is handed out. Returns false when
+// over budget, in which case the caller should not use the URL.
+export function meterUrl(sku: MapsSku, url: string): boolean {
+  if (meteredUrls.has(url)) {
+    return true;
+  }
+  if (isOverBudget()) {
+    return false;
+  }
+  meteredUrls.add(url);
+  record(sku);
+  return true;
+}
+
+// Count a billable URL once the browser has loaded it, e.g. the srcset
+// candidate it picked. The request has happened, so the budget isn't checked.
+export function meterLoadedUrl(sku: MapsSku, url: string): void {
+  if (meteredUrls.has(url)) {
+    return;
+  }
+  meteredUrls.add(url);
+  record(sku);
+}
+
+export function resetUsage(scope: 'session' | 'daily'): void {
+  if (scope === 'session') {
+    session = emptyCounts();
+    meteredUrls.clear();
+  } else {
+    daily = { date: today(), counts: emptyCounts() };
+    saveDaily();
+  }
+  const snapshot = getUsageSnapshot();
+  listeners.forEach((listener) => listener(snapshot));
+}
+
+export function subscribeUsage(listener: UsageListener): () => void {
+  listeners.add(listener);
+  return () => {
+    listeners.delete(listener);
+  };
+}
+
+// Serve lookups from `fallback` (e.g. mock data) once the budget is spent.
+// Sits outside the cache, which first tries to answer with expired entries.
+export function withBudgetFallback(provider: PlacesProvider, fallback: PlacesProvider): PlacesProvider {
+  const guard = async <T>(primary: () => Promise<T>, secondary: () => Promise<T>): Promise<T> => {
+    try {
+      return await primary();
+    } catch (error) {
+      if (isPlacesError(error) && error.code === 'BUDGET_EXCEEDED') {
+        return secondary();
+      }
+      throw error;
+    }
+  };
+
+  return {
+    ...provider,
+
+    searchNearbyRestaurants(location, radius, type, signal) {
+      return guard(
+        () => provider.searchNearbyRestaurants(location, radius, type, signal),
+        () => fallback.searchNearbyRestaurants(location, radius, type, signal)
+      );
+    },
+
+    getPlaceDetails(placeId, signal) {
+      return guard(
+        () => provider.getPlaceDetails(placeId, signal),
+        () => fallback.getPlaceDetails(placeId, signal)
+      );
+    },
+
+    searchPlacesByText(query, location, radius, signal) {
+      return guard(
+        () => provider.searchPlacesByText(query, location, radius, signal),
+        () => fallback.searchPlacesByText(query, location, radius, signal)
+      );
+    },
+
+    searchLocationsByText(query, signal) {
+      return guard(
+        () => provider.searchLocationsByText(query, signal),
+        () => fallback.searchLocationsByText(query, signal)
+      );
+    },
+
+    reverseGeocode(lat, lng, signal) {
+      return guard(
+        () => provider.reverseGeocode(lat, lng, signal),
+        () => fallback.reverseGeocode(lat, lng, signal)
+      );
+    },
+
+    getAutocompletePredictions(input, options, signal) {
+      return guard(
+        () => provider.getAutocompletePredictions(input, options, signal),
+        () => fallback.getAutocompletePredictions(input, options, signal)
+      );
+    },
+
+    resolvePrediction(placeId, sessionToken, signal) {
+      return guard(
+        () => provider.resolvePrediction(placeId, sessionToken, signal),
+        () => fallback.resolvePrediction(placeId, sessionToken, signal)
+      );
+    },
+
+    getTravelTimes(origin, destinations, mode, signal) {
+      return guard(
+        () => provider.getTravelTimes(origin, destinations, mode, signal),
+        () => fallback.getTravelTimes(origin, destinations, mode, signal)
+      );
+    },
+  };
+}
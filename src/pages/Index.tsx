@@ -1,12 +1,32 @@
 
-import React, { useState } from 'react';
+import React from 'react';
+import { useSearchParams } from 'react-router-dom';
 import BottomNavigation from '@/components/BottomNavigation';
 import Feed from '@/components/Feed';
 import RadarWithGoogleMaps from '@/components/RadarWithGoogleMaps';
 import Camera from '@/components/Camera';
 
+type Tab = 'feed' | 'radar' | 'camera';
+
+const TABS: Tab[] = ['feed', 'radar', 'camera'];
+
 const Index = () => {
-  const [activeTab, setActiveTab] = useState<'feed' | 'radar' | 'camera'>('feed');
+  // In the URL alongside Radar's filters, so a shared filtered link opens on Radar
+  const [searchParams, setSearchParams] = useSearchParams();
+  const tabParam = searchParams.get('tab') as Tab;
+  const activeTab: Tab = TABS.includes(tabParam) ? tabParam : 'feed';
+
+  const setActiveTab = (tab: Tab) => {
+    setSearchParams((current) => {
+      const next = new URLSearchParams(current);
+      if (tab === 'feed') {
+        next.delete('tab');
+      } else {
+        next.set('tab', tab);
+      }
+      return next;
+    });
+  };
 
   const renderActiveComponent = () => {
     switch (activeTab) {
@@ -0,0 +1,31 @@
+import React from 'react';
+import { Link } from 'react-router-dom';
+import { ArrowLeft } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import CacheSettings from '@/components/CacheSettings';
+import TravelSettings from '@/components/TravelSettings';
+import DirectionsSettings from '@/components/DirectionsSettings';
+
+const Settings = () => {
+  return (
+    <div className="min-h-screen bg-background">
+      <div className="max-w-md mx-auto bg-white min-h-screen relative">
+        <div className="flex items-center p-4 border-b bg-white/95 backdrop-blur-sm sticky top-0 z-10">
+          <Button variant="ghost" size="sm" asChild className="mr-2">
+            <Link to="/">
+              <ArrowLeft className="h-4 w-4" />
+            </Link>
+          </Button>
+          <h1 className="text-lg font-semibold">Settings</h1>
+        </div>
+        <div className="p-4 space-y-6">
+          <TravelSettings />
+          <DirectionsSettings />
+          <CacheSettings />
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default Settings;
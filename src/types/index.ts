@@ -20,26 +20,122 @@ export interface PhotoAttribution {
   photoUri?: string;
 }
 
+// Google's convention: day 0 is Sunday, times are local to the venue
+export interface OpeningTime {
+  day: number;
+  hour: number;
+  minute: number;
+}
+
+// A period without `close` means open around the clock
+export interface OpeningPeriod {
+  open: OpeningTime;
+  close?: OpeningTime;
+}
+
+// Diets a restaurant caters for, at least with some dishes
+export type DietaryFlag = 'vegetarian' | 'vegan' | 'glutenFree' | 'halal' | 'kosher';
+
+export interface OpeningHours {
+  periods: OpeningPeriod[];
+  // Venue timezone: an IANA name when known, otherwise the UTC offset at fetch time
+  timeZone?: string;
+  utcOffsetMinutes?: number;
+}
+
 export interface Restaurant {
   id: string;
   name: string;
   rating: number;
+  // Reviews behind `rating`, when the provider reports it
+  userRatingCount?: number;
   address: string;
   coordinates: {
     lat: number;
     lng: number;
   };
+  // Label of the most specific cuisine, for places that show just one
   cuisine: string;
+  // Taxonomy ids from `src/lib/cuisines.ts`, most specific first
+  cuisines: string[];
   priceLevel: number;
   image: string;
   distance: number;
   photoAttributions?: PhotoAttribution[];
+  openingHours?: OpeningHours;
+  // Only what the provider reports; a missing flag means unknown, not "no"
+  dietary?: DietaryFlag[];
 }
 
 export interface UserLocation {
   lat: number;
   lng: number;
   address?: string;
+  // Radius of the device fix in meters, when located by GPS
+  accuracy?: number;
+}
+
+export interface Viewport {
+  northeast: { lat: number; lng: number };
+  southwest: { lat: number; lng: number };
+}
+
+// Geocoder precision, from an exact address down to a whole area
+export type LocationType = 'ROOFTOP' | 'RANGE_INTERPOLATED' | 'GEOMETRIC_CENTER' | 'APPROXIMATE';
+
+export interface LocationSearchResult {
+  place_id: string;
+  name: string;
+  formatted_address: string;
+  location: {
+    lat: number;
+    lng: number;
+  };
+  types: string[];
+  // Recommended map view; large for cities, tight for addresses
+  viewport?: Viewport;
+  location_type?: LocationType;
+}
+
+export type TravelMode = 'walk' | 'transit' | 'drive';
+
+export interface TravelDestination {
+  id: string;
+  lat: number;
+  lng: number;
+}
+
+export interface TravelTime {
+  mode: TravelMode;
+  durationSeconds: number;
+  distanceMeters: number;
+  // True for offline estimates, false for routed results
+  estimated: boolean;
+}
+
+// Substring of a prediction that matched the typed input
+export interface PredictionMatch {
+  offset: number;
+  length: number;
+}
+
+// Autocomplete suggestion; resolved to a `LocationSearchResult` only once picked
+export interface PlacePrediction {
+  place_id: string;
+  description: string;
+  main_text: string;
+  main_text_matches: PredictionMatch[];
+  secondary_text?: string;
+  types: string[];
+}
+
+export type BusinessStatus = 'OPERATIONAL' | 'CLOSED_TEMPORARILY' | 'CLOSED_PERMANENTLY';
+
+// Typical spend per person; either end may be open
+export interface PriceRange {
+  currency: string;
+  start?: number;
+  end?: number;
 }
 
 export interface RestaurantDetails {
@@ -58,7 +154,22 @@ export interface RestaurantDetails {
   opening_hours?: {
     weekday_text?: string[];
     open_now: boolean;
+    periods?: OpeningPeriod[];
   };
+  utc_offset_minutes?: number;
+  user_ratings_total?: number;
+  editorial_summary?: string;
+  price_range?: PriceRange;
+  business_status?: BusinessStatus;
+  // Attributes below are undefined when the provider doesn't know
+  dine_in?: boolean;
+  takeout?: boolean;
+  delivery?: boolean;
+  reservable?: boolean;
+  serves_vegetarian_food?: boolean;
+  serves_alcohol?: boolean;
+  outdoor_seating?: boolean;
+  wheelchair_accessible_entrance?: boolean;
   geometry: {
     location: {
       lat: number;
@@ -1 +1,11 @@
 /// <reference types="vite/client" />
+
+interface ImportMetaEnv {
+  readonly VITE_GOOGLE_MAPS_API_KEY?: string;
+  readonly VITE_PLACES_PROVIDER?: 'google' | 'mock' | 'osm';
+  readonly VITE_MOCK_LATENCY_MS?: string;
+  readonly VITE_MOCK_ERROR_RATE?: string;
+  readonly VITE_PHOTO_ENRICHMENT_CONCURRENCY?: string;
+  readonly VITE_MAPS_DAILY_BUDGET_USD?: string;
+  readonly VITE_MAPS_SESSION_BUDGET_USD?: string;
+}